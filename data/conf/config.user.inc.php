@@ -3,7 +3,6 @@
  *
  */
 
-$cfg['DefaultLang'] = 'uk';
 $cfg['UploadDir'] = '/etc/phpmyadmin/upload';
 $cfg['SaveDir'] = '/etc/phpmyadmin/save';
 $cfg['DefaultConnectionCollation'] = 'utf8_general_ci';
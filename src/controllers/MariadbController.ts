@@ -10,17 +10,29 @@ import {
     AppConfigService,
     DockerService
 } from "@wocker/core";
+import {AdminType, ADMIN_ADMINER, ADMIN_NONE, ADMIN_PHPMYADMIN} from "../makes/AdminUi";
+import {Dump, DumpCompression} from "../makes/Dump";
 import {ServiceStorageType} from "../makes/Service";
+import {ManifestService} from "../services/ManifestService";
 import {MariadbService} from "../services/MariadbService";
+import {PromptService} from "../services/PromptService";
 
 
+// Declared by every command whose code path can reach a prompt
+const NO_INTERACTIVE_OPTION = {
+    type: "boolean",
+    description: "Don't prompt, fail when a required value is missing"
+};
+
 @Controller()
 @Description("MariaDB commands")
 export class MariadbController {
     public constructor(
         protected readonly appConfigService: AppConfigService,
         protected readonly dockerService: DockerService,
-        protected readonly mariadbService: MariadbService
+        protected readonly mariadbService: MariadbService,
+        protected readonly manifestService: ManifestService,
+        protected readonly promptService: PromptService
     ) {}
 
     @Command("mariadb [service]")
@@ -33,22 +45,67 @@ export class MariadbController {
             alias: "d",
             description: "<name> Specify the database to target within the service"
         })
-        database?: string
+        database?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
     ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
         await this.mariadbService.mariadb(service, database);
     }
 
     @Command("mariadb:init")
     @Description("Initializes the MariaDB configuration.")
     public async init(
+        @Option("admin-type", {
+            type: "string",
+            description: "Specifies the admin UI: phpmyadmin, adminer or none."
+        })
+        adminType?: string,
         @Option("admin-hostname", {
             type: "string",
             alias: "A",
-            description: "Specifies the phpmyadmin hostname."
+            description: "Specifies the admin hostname."
+        })
+        adminHostname?: string,
+        @Option("admin-image", {
+            type: "string",
+            description: "Overrides the admin image name."
+        })
+        imageName?: string,
+        @Option("admin-image-version", {
+            type: "string",
+            description: "Overrides the admin image version."
         })
-        adminHostname?: string
+        imageVersion?: string,
+        @Option("admin-language", {
+            type: "string",
+            description: "Specifies the phpmyadmin default language, e.g. en."
+        })
+        language?: string,
+        @Option("admin-theme", {
+            type: "string",
+            description: "Specifies the default theme (phpmyadmin) or design (adminer)."
+        })
+        theme?: string,
+        @Option("admin-upload-limit", {
+            type: "string",
+            description: "Specifies the phpmyadmin upload limit, e.g. 512M."
+        })
+        uploadLimit?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
     ): Promise<void> {
-        await this.mariadbService.init(adminHostname);
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.init(adminHostname, {
+            type: adminType as AdminType,
+            imageName,
+            imageVersion,
+            language,
+            theme,
+            uploadLimit
+        });
     }
 
     @Command("mariadb:create [service]")
@@ -74,6 +131,16 @@ export class MariadbController {
             description: "Root password"
         })
         rootPassword?: string,
+        @Option("password-secret", {
+            type: "string",
+            description: "<env:NAME|keystore:KEY> Read the password from a secret instead"
+        })
+        passwordSecret?: string,
+        @Option("root-password-secret", {
+            type: "string",
+            description: "<env:NAME|keystore:KEY> Read the root password from a secret instead"
+        })
+        rootPasswordSecret?: string,
         @Option("host", {
             type: "string",
             alias: "h",
@@ -106,13 +173,19 @@ export class MariadbController {
         volume?: string,
         @Option("container-port")
         @Description("Port on which the database container will be accessible on the host")
-        containerPort?: number
+        containerPort?: number,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
     ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
         await this.mariadbService.create({
             name,
             username,
             password,
+            passwordSecret,
             rootPassword,
+            rootPasswordSecret,
             host,
             storage,
             imageName,
@@ -142,8 +215,12 @@ export class MariadbController {
             alias: "y",
             description: "Skip confirmation"
         })
-        yes?: boolean
+        yes?: boolean,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
     ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
         await this.mariadbService.destroy(service, yes, force);
         await this.mariadbService.startAdmin();
     }
@@ -180,8 +257,23 @@ export class MariadbController {
         @Option("enable-admin")
         enableAdmin?: boolean,
         @Option("disable-admin")
-        disableAdmin?: boolean
+        disableAdmin?: boolean,
+        @Option("remove-old", {
+            type: "boolean",
+            description: "Remove the old storage after the data was moved"
+        })
+        removeOld?: boolean,
+        @Option("apply", {
+            type: "boolean",
+            alias: "a",
+            description: "Recreate the running container without confirmation"
+        })
+        apply?: boolean,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
     ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
         await this.mariadbService.upgrade({
             name,
             storage,
@@ -189,7 +281,7 @@ export class MariadbController {
             imageName,
             imageVersion,
             containerPort
-        });
+        }, removeOld, apply);
 
         if(typeof enableAdmin !== "undefined") {
             this.mariadbService.config.admin.enabled = true;
@@ -202,6 +294,115 @@ export class MariadbController {
         }
     }
 
+    @Command("mariadb:env [service]")
+    @Command("mariadb:env:list [service]")
+    @Description("Lists environment variables of a MariaDB service container.")
+    public async env(
+        @Param("service")
+        service?: string
+    ): Promise<string> {
+        return this.mariadbService.getEnv(service);
+    }
+
+    @Command("mariadb:env:set [...variables]")
+    @Description("Sets environment variables of a MariaDB service container.")
+    public async setEnv(
+        @Param("variables")
+        variables: string[],
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string
+    ): Promise<void> {
+        await this.mariadbService.setEnv(service, variables);
+    }
+
+    @Command("mariadb:env:unset [...variables]")
+    @Description("Removes environment variables of a MariaDB service container.")
+    public async unsetEnv(
+        @Param("variables")
+        variables: string[],
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string
+    ): Promise<void> {
+        await this.mariadbService.unsetEnv(service, variables);
+    }
+
+    @Command("mariadb:config [service]")
+    @Description("Lists server options of a MariaDB service.")
+    public async config(
+        @Param("service")
+        service?: string
+    ): Promise<string> {
+        return this.mariadbService.getServerOptions(service);
+    }
+
+    @Command("mariadb:config:set [...options]")
+    @Description("Sets server options, e.g. max_allowed_packet=64M, of a MariaDB service.")
+    public async setConfig(
+        @Param("options")
+        options: string[],
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string
+    ): Promise<void> {
+        await this.mariadbService.setServerOptions(service, options);
+    }
+
+    @Command("mariadb:config:unset [...options]")
+    @Description("Removes server options of a MariaDB service.")
+    public async unsetConfig(
+        @Param("options")
+        options: string[],
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string
+    ): Promise<void> {
+        await this.mariadbService.unsetServerOptions(service, options);
+    }
+
+    @Command("mariadb:seed [service]")
+    @Description("Applies the seed files of a MariaDB service to the running database.")
+    public async seed(
+        @Param("service")
+        service?: string,
+        @Option("database", {
+            type: "string",
+            alias: "d",
+            description: "The name of the database to apply SQL seeds to"
+        })
+        database?: string
+    ): Promise<void> {
+        await this.mariadbService.seed(service, database);
+    }
+
+    @Command("mariadb:seed:set [...paths]")
+    @Description("Sets seed directories or .sql, .sql.gz and .sh files executed on the first start. Clears seeds if no path given.")
+    public async setSeeds(
+        @Param("paths")
+        paths: string[],
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string
+    ): Promise<void> {
+        await this.mariadbService.setSeeds(service, paths);
+    }
+
     @Command("mariadb:use [service]")
     @Description("Sets a specified MariaDB service as the default or retrieves the current default service name if no service is specified.")
     public async default(
@@ -227,9 +428,25 @@ export class MariadbController {
             alias: "r",
             description: "Restart the service if already running"
         })
-        restart?: boolean
+        restart?: boolean,
+        @Option("no-wait", {
+            type: "boolean",
+            description: "Don't wait until the service is ready to accept connections"
+        })
+        noWait?: boolean,
+        @Option("timeout", {
+            type: "number",
+            alias: "t",
+            description: "<seconds> How long to wait until the service is ready, 60 by default"
+        })
+        timeout?: number,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
     ): Promise<void> {
-        await this.mariadbService.start(service, restart);
+        // Starting without any service creates the default one
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.start(service, restart, !noWait, timeout);
         await this.mariadbService.startAdmin();
     }
 
@@ -253,8 +470,12 @@ export class MariadbController {
             alias: "d",
             description: "Name of the database to dump"
         })
-        database?: string
+        database?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
     ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
         await this.mariadbService.dump(service, database);
     }
 
@@ -286,14 +507,142 @@ export class MariadbController {
             alias: "f",
             description: "Name of the backup file"
         })
-        filename?: string
+        filename?: string,
+        @Option("compress", {
+            type: "string",
+            alias: "c",
+            description: `<${Dump.getSupportedCompressions().join("|")}> Compression of the backup file`
+        })
+        compress?: DumpCompression,
+        @Option("output", {
+            type: "string",
+            alias: "o",
+            description: "<path> Write the backup to a file outside of the catalog, - for stdout"
+        })
+        output?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
     ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
         if(del) {
             await this.mariadbService.deleteBackup(service, database, filename, yes);
             return;
         }
 
-        await this.mariadbService.backup(service, database, filename);
+        await this.mariadbService.backup(service, database, filename, compress, output);
+    }
+
+    @Command("mariadb:backup:import [path]")
+    @Description("Copies an external dump file into the backup catalog.")
+    public async importBackup(
+        @Param("path")
+        path?: string,
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "Name of the service the backup belongs to"
+        })
+        service?: string,
+        @Option("database", {
+            type: "string",
+            alias: "d",
+            description: "Name of the database the backup belongs to"
+        })
+        database?: string,
+        @Option("filename", {
+            type: "string",
+            alias: "f",
+            description: "Name of the file in the catalog, defaults to the source file name"
+        })
+        filename?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.importBackup(service, path, database, filename);
+    }
+
+    @Command("mariadb:backup:ls [service]")
+    @Command("mariadb:backup:list [service]")
+    @Description("Lists database backups grouped by service and database.")
+    public async backupList(
+        @Param("service")
+        service?: string,
+        @Option("database", {
+            type: "string",
+            alias: "d",
+            description: "Show backups of the specified database only"
+        })
+        database?: string,
+        @Option("json", {
+            type: "boolean",
+            description: "Output backups as JSON"
+        })
+        json?: boolean
+    ): Promise<string> {
+        return this.mariadbService.backupList(service, database, json);
+    }
+
+    @Command("mariadb:backup:prune [service]")
+    @Description("Deletes backups which are not kept by the retention policy.")
+    public async prune(
+        @Param("service")
+        service?: string,
+        @Option("database", {
+            type: "string",
+            alias: "d",
+            description: "Prune backups of the specified database only"
+        })
+        database?: string,
+        @Option("dry-run", {
+            type: "boolean",
+            description: "Show backups which would be deleted"
+        })
+        dryRun?: boolean
+    ): Promise<void> {
+        await this.mariadbService.prune(service, database, dryRun);
+    }
+
+    @Command("mariadb:backup:retention [service]")
+    @Description("Shows or updates the backup retention policy. A value of 0 removes the rule.")
+    public async retention(
+        @Param("service")
+        service?: string,
+        @Option("keep-last", {
+            type: "number",
+            description: "<count> Keep the last N backups"
+        })
+        keepLast?: number,
+        @Option("keep-daily", {
+            type: "number",
+            description: "<days> Keep the newest backup of each of the last N days"
+        })
+        keepDaily?: number,
+        @Option("keep-weekly", {
+            type: "number",
+            description: "<weeks> Keep the newest backup of each of the last N weeks"
+        })
+        keepWeekly?: number,
+        @Option("keep-monthly", {
+            type: "number",
+            description: "<months> Keep the newest backup of each of the last N months"
+        })
+        keepMonthly?: number,
+        @Option("global", {
+            type: "boolean",
+            alias: "g",
+            description: "Apply to the policy shared by all services"
+        })
+        global?: boolean
+    ): Promise<string> {
+        return this.mariadbService.retention(service, {
+            keepLast,
+            keepDaily,
+            keepWeekly,
+            keepMonthly
+        }, global);
     }
 
     @Command("mariadb:restore [service]")
@@ -312,9 +661,343 @@ export class MariadbController {
             alias: "f",
             description: "The name of the backup file to restore\n"
         })
-        filename?: string
+        filename?: string,
+        @Option("file", {
+            type: "string",
+            description: "<path> Restore from a file outside of the catalog, - for stdin"
+        })
+        file?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.restore(service, database, filename, file);
+    }
+
+    @Command("mariadb:clone [source] [target]")
+    @Description("Copies a database from one MariaDB service to another without an intermediate file.")
+    public async clone(
+        @Param("source")
+        source?: string,
+        @Param("target")
+        target?: string,
+        @Option("database", {
+            type: "string",
+            alias: "d",
+            description: "Name of the source database"
+        })
+        database?: string,
+        @Option("target-database", {
+            type: "string",
+            alias: "t",
+            description: "Name of the target database, defaults to the source database name"
+        })
+        targetDatabase?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.clone(source, target, database, targetDatabase);
+    }
+
+    @Command("mariadb:db:create [database]")
+    @Description("Creates a database in a MariaDB service.")
+    public async createDatabase(
+        @Param("database")
+        database?: string,
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string,
+        @Option("charset", {
+            type: "string",
+            alias: "c",
+            description: "Default character set of the database"
+        })
+        charset?: string,
+        @Option("collation", {
+            type: "string",
+            alias: "C",
+            description: "Default collation of the database"
+        })
+        collation?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.createDatabase(service, database, charset, collation);
+    }
+
+    @Command("mariadb:db:drop [database]")
+    @Description("Drops a database in a MariaDB service.")
+    public async dropDatabase(
+        @Param("database")
+        database?: string,
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string,
+        @Option("yes", {
+            type: "boolean",
+            alias: "y",
+            description: "Skip confirmation"
+        })
+        yes?: boolean,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.dropDatabase(service, database, yes);
+    }
+
+    @Command("mariadb:user:create [username]")
+    @Description("Creates a user in a MariaDB service.")
+    public async createUser(
+        @Param("username")
+        username?: string,
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string,
+        @Option("password", {
+            type: "string",
+            alias: "p",
+            description: "Password of the user"
+        })
+        password?: string,
+        @Option("host", {
+            type: "string",
+            alias: "h",
+            description: "Host the user connects from, defaults to %"
+        })
+        host?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.createUser(service, username, password, host);
+    }
+
+    @Command("mariadb:user:drop [username]")
+    @Description("Drops a user in a MariaDB service.")
+    public async dropUser(
+        @Param("username")
+        username?: string,
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string,
+        @Option("host", {
+            type: "string",
+            alias: "h",
+            description: "Host the user connects from, defaults to %"
+        })
+        host?: string,
+        @Option("yes", {
+            type: "boolean",
+            alias: "y",
+            description: "Skip confirmation"
+        })
+        yes?: boolean,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.dropUser(service, username, host, yes);
+    }
+
+    @Command("mariadb:password [service]")
+    @Description("Changes a password on the running server and updates the configuration and linked projects.")
+    public async password(
+        @Param("service")
+        service?: string,
+        @Option("user", {
+            type: "string",
+            alias: "u",
+            description: "The name of the user, defaults to root for local services"
+        })
+        username?: string,
+        @Option("password", {
+            type: "string",
+            alias: "p",
+            description: "The new password"
+        })
+        password?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.password(service, username, password);
+    }
+
+    @Command("mariadb:grant [username]")
+    @Description("Grants privileges on a database to a user of a MariaDB service.")
+    public async grant(
+        @Param("username")
+        username?: string,
+        @Option("service", {
+            type: "string",
+            alias: "s",
+            description: "The name of the service, defaults to the default service"
+        })
+        service?: string,
+        @Option("database", {
+            type: "string",
+            alias: "d",
+            description: "The name of the database, * for all databases"
+        })
+        database?: string,
+        @Option("privileges", {
+            type: "string",
+            alias: "P",
+            description: "Comma separated privileges, defaults to ALL PRIVILEGES"
+        })
+        privileges?: string,
+        @Option("host", {
+            type: "string",
+            alias: "h",
+            description: "Host the user connects from, defaults to %"
+        })
+        host?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.grant(service, username, database, privileges, host);
+    }
+
+    @Command("mariadb:link [service]")
+    @Description("Links the current project to a database of a MariaDB service and sets DB_* env variables.")
+    public async link(
+        @Param("service")
+        service?: string,
+        @Option("database", {
+            type: "string",
+            alias: "d",
+            description: "The name of the database, created if missing"
+        })
+        database?: string,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.mariadbService.link(service, database);
+    }
+
+    @Command("mariadb:unlink")
+    @Description("Unlinks the current project from the MariaDB service.")
+    public async unlink(): Promise<void> {
+        await this.mariadbService.unlink();
+    }
+
+    @Command("mariadb:status [service]")
+    @Description("Shows the state, version, sizes and connections of a MariaDB service.")
+    public async status(
+        @Param("service")
+        service?: string,
+        @Option("json", {
+            type: "boolean",
+            description: "Output status as JSON"
+        })
+        json?: boolean
+    ): Promise<string> {
+        return this.mariadbService.status(service, json);
+    }
+
+    @Command("mariadb:logs [service]")
+    @Description("Shows logs of a MariaDB service or the admin container.")
+    public async logs(
+        @Param("service")
+        service?: string,
+        @Option("follow", {
+            type: "boolean",
+            alias: "f",
+            description: "Follow log output"
+        })
+        follow?: boolean,
+        @Option("tail", {
+            type: "number",
+            alias: "n",
+            description: "<lines> Number of lines to show from the end of the logs"
+        })
+        tail?: number,
+        @Option("since", {
+            type: "string",
+            description: "<time> Show logs since timestamp, date or relative time, e.g. 15m"
+        })
+        since?: string,
+        @Option("slow", {
+            type: "boolean",
+            description: "Enable and show the slow query log"
+        })
+        slow?: boolean,
+        @Option("admin", {
+            type: "boolean",
+            alias: "a",
+            description: "Show logs of the admin container"
+        })
+        admin?: boolean
     ): Promise<void> {
-        await this.mariadbService.restore(service, database, filename);
+        await this.mariadbService.logs(service, {
+            follow,
+            tail,
+            since,
+            slow,
+            admin
+        });
+    }
+
+    @Command("mariadb:plan")
+    @Description("Shows changes needed to converge services with mariadb.yml.")
+    public async plan(
+        @Option("file", {
+            type: "string",
+            alias: "f",
+            description: "<path> Path to the services file, defaults to mariadb.yml, mariadb.yaml or mariadb.json"
+        })
+        file?: string
+    ): Promise<string> {
+        return this.manifestService.plan(file);
+    }
+
+    @Command("mariadb:apply")
+    @Description("Creates, upgrades and starts services described in mariadb.yml.")
+    public async apply(
+        @Option("file", {
+            type: "string",
+            alias: "f",
+            description: "<path> Path to the services file, defaults to mariadb.yml, mariadb.yaml or mariadb.json"
+        })
+        file?: string,
+        @Option("yes", {
+            type: "boolean",
+            alias: "y",
+            description: "Apply without confirmation"
+        })
+        yes?: boolean,
+        @Option("no-interactive", NO_INTERACTIVE_OPTION)
+        noInteractive?: boolean
+    ): Promise<void> {
+        this.promptService.setInteractive(!noInteractive);
+
+        await this.manifestService.apply(file, yes);
     }
 
     @Command("mariadb:ls")
@@ -324,6 +1007,16 @@ export class MariadbController {
         return this.mariadbService.list();
     }
 
+    @Completion("compress")
+    public getCompressions(): string[] {
+        return Dump.getSupportedCompressions();
+    }
+
+    @Completion("admin-type")
+    public getAdminTypes(): string[] {
+        return [ADMIN_PHPMYADMIN, ADMIN_ADMINER, ADMIN_NONE];
+    }
+
     @Completion("service", "mariadb:create [service]")
     public getEmp(): string[] {
         return [];
@@ -344,6 +1037,38 @@ export class MariadbController {
         }
     }
 
+    @Completion("database", "mariadb:db:drop [database]")
+    @Completion("database", "mariadb:grant [username]")
+    public async getServiceDatabases(
+        @Option("service")
+        name?: string
+    ): Promise<string[]> {
+        try {
+            const service = this.mariadbService.config.getServiceOrDefault(name);
+
+            return await this.mariadbService.getDatabases(service);
+        }
+        catch(err) {
+            return [];
+        }
+    }
+
+    @Completion("username", "mariadb:user:drop [username]")
+    @Completion("username", "mariadb:grant [username]")
+    public async getUsers(
+        @Option("service")
+        name?: string
+    ): Promise<string[]> {
+        try {
+            const service = this.mariadbService.config.getServiceOrDefault(name);
+
+            return await this.mariadbService.getUsers(service);
+        }
+        catch(err) {
+            return [];
+        }
+    }
+
     @Completion("filename")
     public async getFilename(
         @Param("service")
@@ -359,6 +1084,8 @@ export class MariadbController {
     }
 
     @Completion("service")
+    @Completion("source", "mariadb:clone [source] [target]")
+    @Completion("target", "mariadb:clone [source] [target]")
     public getExistsServices(): string[] {
         return this.mariadbService.getServices();
     }
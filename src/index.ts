@@ -3,6 +3,9 @@ import {Plugin, PluginConfigService} from "@wocker/core";
 import {MariadbController} from "./controllers/MariadbController";
 import {MariadbService} from "./services/MariadbService";
 import {DumpService} from "./services/DumpService";
+import {ManifestService} from "./services/ManifestService";
+import {PromptService} from "./services/PromptService";
+import {SecretService} from "./services/SecretService";
 
 
 @Plugin({
@@ -13,7 +16,10 @@ import {DumpService} from "./services/DumpService";
     providers: [
         PluginConfigService,
         MariadbService,
-        DumpService
+        DumpService,
+        ManifestService,
+        PromptService,
+        SecretService
     ]
 })
 export default class MariadbPlugin {}
@@ -0,0 +1,44 @@
+import {EnvConfig, FileSystem} from "@wocker/core";
+import type {AdminConfig} from "./Config";
+import {Service} from "./Service";
+
+
+export const ADMIN_PHPMYADMIN = "phpmyadmin";
+export const ADMIN_ADMINER = "adminer";
+export const ADMIN_NONE = "none";
+
+export type AdminType = typeof ADMIN_PHPMYADMIN | typeof ADMIN_ADMINER | typeof ADMIN_NONE;
+
+export type AdminUiParams = {
+    env: EnvConfig;
+    volumes: string[];
+    dirs: {
+        [path: string]: string;
+    };
+    owner?: string;
+    files: {
+        [path: string]: string;
+    };
+};
+
+export abstract class AdminUi {
+    public constructor(
+        protected readonly config: AdminConfig
+    ) {}
+
+    public abstract get title(): string;
+
+    public abstract get defaultImageName(): string;
+
+    public abstract get port(): number;
+
+    public get imageTag(): string {
+        return `${this.config.imageName || this.defaultImageName}:${this.config.imageVersion || "latest"}`;
+    }
+
+    /**
+     * Files and dirs are relative to the plugin config directory and are created before the container.
+     * Dirs map to their path in the container and are handed over to the owner, the user the web server runs as.
+     */
+    public abstract getParams(servers: Service[], fs: FileSystem): AdminUiParams;
+}
@@ -0,0 +1,55 @@
+import {FileSystem} from "@wocker/core";
+import {AdminUi, AdminUiParams} from "./AdminUi";
+import {Service} from "./Service";
+import {escapePhpString} from "../utils";
+
+
+export class Adminer extends AdminUi {
+    public get title(): string {
+        return "Adminer";
+    }
+
+    public get defaultImageName(): string {
+        return "adminer";
+    }
+
+    public get port(): number {
+        return 8080;
+    }
+
+    public getParams(servers: Service[], fs: FileSystem): AdminUiParams {
+        const [server] = servers;
+
+        return {
+            env: {
+                ADMINER_DEFAULT_SERVER: server.host || server.containerName,
+                ...this.config.theme ? {
+                    ADMINER_DESIGN: this.config.theme
+                } : {}
+            },
+            volumes: [
+                `${fs.path("adminer/login-servers.php")}:/var/www/html/plugins-enabled/login-servers.php:ro`
+            ],
+            dirs: {},
+            files: {
+                "adminer/login-servers.php": this.render(servers)
+            }
+        };
+    }
+
+    protected render(servers: Service[]): string {
+        return [
+            "<?php",
+            "require_once('plugins/login-servers.php');",
+            "",
+            "return new AdminerLoginServers([",
+            ...servers.map((service) => {
+                const host = service.host || service.containerName;
+
+                return `    ${escapePhpString(service.name)} => ['server' => ${escapePhpString(host)}, 'driver' => 'server'],`;
+            }),
+            "]);",
+            ""
+        ].join("\n");
+    }
+}
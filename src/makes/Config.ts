@@ -1,45 +1,69 @@
 import {FileSystem, PickProperties} from "@wocker/core";
+import {AdminType, ADMIN_PHPMYADMIN} from "./AdminUi";
+import {Retention, RetentionProps} from "./Retention";
 import {Service, ServiceProps} from "./Service";
+import {CONFIG_VERSION, migrateConfig, validateConfig} from "../utils";
 
 
-type AdminConfig = {
+export type AdminConfig = {
     enabled?: boolean;
+    type?: AdminType;
+    imageName?: string;
+    imageVersion?: string;
     hostname: string;
+    language?: string;
+    theme?: string;
+    uploadLimit?: string;
 };
 
-export type ConfigProps = Omit<PickProperties<Config>, "services"> & {
-    enableAdmin?: boolean;
-    adminHostname?: string;
+export type ConfigSecrets = {
+    hydrate(service: ServiceProps): ServiceProps;
+    dehydrate(service: ServiceProps): ServiceProps;
+};
+
+export type ConfigProps = Omit<PickProperties<Config>, "services" | "retention"> & {
+    version?: number;
+    retention?: RetentionProps;
     services?: ServiceProps[];
 };
 
 export abstract class Config {
     public default?: string;
     public admin: AdminConfig;
+    public retention?: Retention;
     public services: Service[];
 
     public constructor(data: ConfigProps) {
         const {
             default: defaultService,
-            enableAdmin,
-            adminHostname,
             admin = {
-                enabled: enableAdmin,
-                hostname: adminHostname || "dbadmin-mariadb.workspace"
+                hostname: "dbadmin-mariadb.workspace"
             },
+            retention,
             services = []
         } = data;
 
         this.default = defaultService;
         this.admin = {
             enabled: admin.enabled ?? false,
-            hostname: admin.hostname ?? "dbadmin-mariadb.workspace"
+            type: admin.type ?? ADMIN_PHPMYADMIN,
+            imageName: admin.imageName,
+            imageVersion: admin.imageVersion,
+            hostname: admin.hostname ?? "dbadmin-mariadb.workspace",
+            language: admin.language,
+            theme: admin.theme,
+            uploadLimit: admin.uploadLimit
         };
+        this.retention = retention ? new Retention(retention) : undefined;
         this.services = services.map((s) => {
             return new Service(s);
         });
     }
 
+    public getRetention(service: Service): Retention {
+        return service.retention || this.retention || new Retention();
+    }
+
     public hasService(name: string): boolean {
         const service = this.services.find((service) => {
             return service.name === name;
@@ -129,27 +153,58 @@ export abstract class Config {
 
     public toObject(): ConfigProps {
         return {
+            version: CONFIG_VERSION,
             default: this.default,
             admin: this.admin,
+            retention: this.retention?.toObject(),
             services: this.services.length > 0 ? this.services.map((service) => {
                 return service.toObject();
             }) : undefined
         };
     }
 
-    public static make(fs: FileSystem, configPath: string): Config {
-        const data: ConfigProps = fs.exists(configPath)
+    public static make(fs: FileSystem, configPath: string, secrets?: ConfigSecrets): Config {
+        const exists = fs.exists(configPath);
+        const raw = exists
             ? fs.readJSON(configPath)
             : {
+                version: CONFIG_VERSION,
                 admin: {
                     enabled: true
                 }
             };
 
-        return new class extends Config {
+        const data = migrateConfig(raw) as ConfigProps;
+
+        try {
+            validateConfig(data);
+        }
+        catch(err) {
+            throw new Error(`${configPath}: ${(err as Error).message}`);
+        }
+
+        if(secrets && data.services) {
+            data.services = data.services.map((service) => {
+                return secrets.hydrate(service);
+            });
+        }
+
+        const config = new class extends Config {
             public save(): void {
-                fs.writeJSON(configPath, this.toObject());
+                const data = this.toObject();
+
+                if(secrets && data.services) {
+                    data.services = data.services.map((service) => {
+                        return secrets.dehydrate(service);
+                    });
+                }
+
+                fs.writeJSON(configPath, data);
             }
         }(data);
+
+        // Reading never writes, completions read the config too. Older versions and plaintext
+        // passwords are migrated by the next command that saves the config.
+        return config;
     }
 }
@@ -0,0 +1,117 @@
+import * as zlib from "zlib";
+
+
+export const COMPRESSION_NONE = "none";
+export const COMPRESSION_GZIP = "gzip";
+export const COMPRESSION_ZSTD = "zstd";
+
+export type DumpCompression = typeof COMPRESSION_NONE | typeof COMPRESSION_GZIP | typeof COMPRESSION_ZSTD;
+
+export const COMPRESSION_EXTENSIONS: Record<DumpCompression, string> = {
+    [COMPRESSION_NONE]: "",
+    [COMPRESSION_GZIP]: ".gz",
+    [COMPRESSION_ZSTD]: ".zst"
+};
+
+export type DumpProps = {
+    service: string;
+    database: string;
+    filename: string;
+    imageTag?: string;
+    size?: number;
+    checksum?: string;
+    createdAt?: string;
+    options?: string[];
+    compression?: DumpCompression;
+};
+
+export class Dump {
+    public service: string;
+    public database: string;
+    public filename: string;
+    public imageTag?: string;
+    public size: number;
+    public checksum?: string;
+    public createdAt: Date;
+    public options: string[];
+    public compression?: DumpCompression;
+
+    public constructor(data: DumpProps) {
+        const {
+            service,
+            database,
+            filename,
+            imageTag,
+            size = 0,
+            checksum,
+            createdAt,
+            options = [],
+            compression
+        } = data;
+
+        this.service = service;
+        this.database = database;
+        this.filename = filename;
+        this.imageTag = imageTag;
+        this.size = size;
+        this.checksum = checksum;
+        this.createdAt = createdAt ? new Date(createdAt) : new Date();
+        this.options = options;
+        this.compression = compression;
+    }
+
+    public get dir(): string {
+        return `dump/${this.service}/${this.database}`;
+    }
+
+    public get path(): string {
+        return `${this.dir}/${this.filename}`;
+    }
+
+    public get metaPath(): string {
+        return Dump.getMetaPath(this.path);
+    }
+
+    public toObject(): DumpProps {
+        return {
+            service: this.service,
+            database: this.database,
+            filename: this.filename,
+            imageTag: this.imageTag,
+            size: this.size,
+            checksum: this.checksum,
+            createdAt: this.createdAt.toISOString(),
+            options: this.options.length > 0 ? this.options : undefined,
+            compression: this.compression
+        };
+    }
+
+    public static getCompressionByFilename(filename: string): DumpCompression | undefined {
+        if(/\.gz$/.test(filename)) {
+            return COMPRESSION_GZIP;
+        }
+
+        if(/\.zst$/.test(filename)) {
+            return COMPRESSION_ZSTD;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * zlib supports zstd since Node.js 22.15.
+     */
+    public static getSupportedCompressions(): DumpCompression[] {
+        return typeof zlib.createZstdCompress === "function"
+            ? [COMPRESSION_GZIP, COMPRESSION_ZSTD, COMPRESSION_NONE]
+            : [COMPRESSION_GZIP, COMPRESSION_NONE];
+    }
+
+    public static getMetaPath(path: string): string {
+        return `${path}.meta.json`;
+    }
+
+    public static isMetaFile(filename: string): boolean {
+        return /\.meta\.json$/.test(filename);
+    }
+}
@@ -0,0 +1,14 @@
+import {SecretProvider} from "./SecretProvider";
+
+
+export class EnvSecretProvider extends SecretProvider {
+    public get(key: string): string | undefined {
+        return process.env[key];
+    }
+
+    public set(key: string): void {
+        throw new Error(`Environment variable "${key}" can't be written`);
+    }
+
+    public delete(): void {}
+}
@@ -0,0 +1,120 @@
+import {FileSystem} from "@wocker/core";
+import {createCipheriv, createDecipheriv, randomBytes, scryptSync} from "crypto";
+import * as FS from "fs";
+import {SecretProvider} from "./SecretProvider";
+
+
+type KeystoreData = {
+    [key: string]: string;
+};
+
+export class KeystoreSecretProvider extends SecretProvider {
+    protected _key?: Buffer;
+
+    public constructor(
+        protected readonly fs: FileSystem,
+        protected readonly path: string = "secrets.json",
+        protected readonly keyPath: string = "secrets.key"
+    ) {
+        super();
+    }
+
+    /**
+     * WS_MARIADB_KEYSTORE_KEY takes precedence over the generated key file,
+     * so the key can be kept outside of the plugin directory.
+     * The generated key lies next to the store and only keeps the passwords out of the config,
+     * anyone who can read the plugin directory can decrypt them.
+     * It is only generated when a secret is written, reading never creates files.
+     */
+    protected getKey(generate?: boolean): Buffer {
+        if(!this._key) {
+            const passphrase = process.env.WS_MARIADB_KEYSTORE_KEY;
+
+            if(passphrase) {
+                this._key = scryptSync(passphrase, "wocker-mariadb", 32);
+            }
+            else {
+                if(!this.fs.exists(this.keyPath)) {
+                    if(!generate) {
+                        throw new Error(`Keystore key "${this.keyPath}" is missing`);
+                    }
+
+                    this.fs.writeFile(this.keyPath, randomBytes(32).toString("hex"));
+
+                    FS.chmodSync(this.fs.path(this.keyPath), 0o600);
+
+                    console.info(`Keystore key generated at ${this.fs.path(this.keyPath)}, set WS_MARIADB_KEYSTORE_KEY to keep the key apart from the secrets`);
+                }
+
+                this._key = Buffer.from(this.fs.readFile(this.keyPath).toString().trim(), "hex");
+            }
+        }
+
+        return this._key;
+    }
+
+    public get(key: string): string | undefined {
+        const data = this.read();
+
+        if(!data[key]) {
+            return undefined;
+        }
+
+        const [iv, tag, encrypted] = data[key].split(":").map((part) => {
+            return Buffer.from(part, "base64");
+        });
+
+        const secret = this.getKey();
+
+        try {
+            const decipher = createDecipheriv("aes-256-gcm", secret, iv);
+
+            decipher.setAuthTag(tag);
+
+            return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString();
+        }
+        catch(err) {
+            throw new Error(`Unable to decrypt secret "${key}", the keystore key has changed`);
+        }
+    }
+
+    public set(key: string, value: string): void {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv("aes-256-gcm", this.getKey(true), iv);
+        const encrypted = Buffer.concat([cipher.update(value), cipher.final()]);
+
+        const data = this.read();
+
+        data[key] = [iv, cipher.getAuthTag(), encrypted].map((part) => {
+            return part.toString("base64");
+        }).join(":");
+
+        this.write(data);
+    }
+
+    public delete(key: string): void {
+        const data = this.read();
+
+        if(!(key in data)) {
+            return;
+        }
+
+        delete data[key];
+
+        this.write(data);
+    }
+
+    protected read(): KeystoreData {
+        if(!this.fs.exists(this.path)) {
+            return {};
+        }
+
+        return this.fs.readJSON(this.path);
+    }
+
+    protected write(data: KeystoreData): void {
+        this.fs.writeJSON(this.path, data);
+
+        FS.chmodSync(this.fs.path(this.path), 0o600);
+    }
+}
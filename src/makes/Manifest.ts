@@ -0,0 +1,87 @@
+import {parse as parseYaml} from "yaml";
+import type {AdminConfig} from "./Config";
+import {ServiceProps} from "./Service";
+import {validateConfig} from "../utils";
+
+
+export const MANIFEST_FILENAMES = ["mariadb.yml", "mariadb.yaml", "mariadb.json"];
+
+export type ManifestUserProps = {
+    name: string;
+    host?: string;
+    password?: string;
+    passwordSecret?: string;
+    databases?: string[];
+    privileges?: string;
+};
+
+export type ManifestServiceProps = ServiceProps & {
+    databases?: string[];
+    users?: ManifestUserProps[];
+};
+
+export type ManifestProps = {
+    default?: string;
+    admin?: Partial<AdminConfig>;
+    services?: ManifestServiceProps[];
+};
+
+export class Manifest {
+    public default?: string;
+    public admin?: Partial<AdminConfig>;
+    public services: ManifestServiceProps[];
+
+    public constructor(data: ManifestProps) {
+        const {
+            default: defaultService,
+            admin,
+            services = []
+        } = data;
+
+        this.default = defaultService;
+        this.admin = admin;
+        this.services = services;
+    }
+
+    public static parse(content: string, path: string): Manifest {
+        const data: ManifestProps = /\.json$/.test(path)
+            ? JSON.parse(content)
+            : parseYaml(content);
+
+        if(!data || typeof data !== "object") {
+            throw new Error(`${path}: expected an object`);
+        }
+
+        const errors: string[] = [];
+
+        (data.services || []).forEach((service, index) => {
+            (service.users || []).forEach((user, userIndex) => {
+                if(!user || typeof user.name !== "string") {
+                    errors.push(`  services[${index}].users[${userIndex}].name: is required`);
+                }
+            });
+
+            if(service.databases && !Array.isArray(service.databases)) {
+                errors.push(`  services[${index}].databases: must be a list`);
+            }
+        });
+
+        try {
+            // Everything except databases and users has the same shape as config.json
+            validateConfig({
+                default: data.default,
+                admin: data.admin,
+                services: data.services?.map(({databases, users, ...service}) => service)
+            });
+        }
+        catch(err) {
+            errors.unshift(...(err as Error).message.split("\n").slice(1));
+        }
+
+        if(errors.length > 0) {
+            throw new Error(`${path}: Invalid file:\n${errors.join("\n")}`);
+        }
+
+        return new Manifest(data);
+    }
+}
@@ -0,0 +1,92 @@
+import {FileSystem} from "@wocker/core";
+import type {AdminConfig} from "./Config";
+import {AdminUi, AdminUiParams} from "./AdminUi";
+import {Service} from "./Service";
+import {escapePhpString} from "../utils";
+
+
+export class PhpMyAdmin extends AdminUi {
+    public constructor(
+        config: AdminConfig,
+        protected readonly template: string
+    ) {
+        super(config);
+    }
+
+    public get title(): string {
+        return "Phpmyadmin";
+    }
+
+    public get defaultImageName(): string {
+        return "phpmyadmin/phpmyadmin";
+    }
+
+    public get port(): number {
+        return 80;
+    }
+
+    public getParams(servers: Service[], fs: FileSystem): AdminUiParams {
+        return {
+            env: {
+                ...this.config.uploadLimit ? {
+                    UPLOAD_LIMIT: this.config.uploadLimit
+                } : {}
+            },
+            volumes: [
+                `${fs.path("config.user.inc.php")}:/etc/phpmyadmin/config.user.inc.php`,
+                `${fs.path("save")}:/etc/phpmyadmin/save`,
+                `${fs.path("upload")}:/etc/phpmyadmin/upload`
+            ],
+            dirs: {
+                save: "/etc/phpmyadmin/save",
+                upload: "/etc/phpmyadmin/upload"
+            },
+            owner: "www-data",
+            files: {
+                "config.user.inc.php": this.render(servers)
+            }
+        };
+    }
+
+    protected render(servers: Service[]): string {
+        const {
+            language = "en",
+            theme
+        } = this.config;
+
+        const lines: string[] = [
+            this.template,
+            `$cfg['DefaultLang'] = ${escapePhpString(language)};`
+        ];
+
+        if(theme) {
+            lines.push(`$cfg['ThemeDefault'] = ${escapePhpString(theme)};`);
+        }
+
+        servers.forEach((service, index) => {
+            const host = service.host || service.containerName;
+
+            const user = service.host ? service.username : "root";
+            const password = service.host ? service.password : service.rootPassword;
+
+            if(index !== 0) {
+                lines.push(`$i++;`);
+            }
+
+            lines.push(`$cfg['Servers'][$i]['host'] = ${escapePhpString(host)};`);
+            lines.push(`$cfg['Servers'][$i]['verbose'] = ${escapePhpString(service.name)};`);
+
+            if(user && password) {
+                lines.push(`$cfg['Servers'][$i]['auth_type'] = 'config';`);
+                lines.push(`$cfg['Servers'][$i]['user'] = ${escapePhpString(user)};`);
+                lines.push(`$cfg['Servers'][$i]['password'] = ${escapePhpString(password)};`);
+            }
+            else if(user) {
+                lines.push(`$cfg['Servers'][$i]['auth_type'] = 'cookie';`);
+                lines.push(`$cfg['Servers'][$i]['user'] = ${escapePhpString(user)};`);
+            }
+        });
+
+        return lines.join("\n") + "\n";
+    }
+}
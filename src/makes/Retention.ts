@@ -0,0 +1,110 @@
+import {format as dateFormat} from "date-fns/format";
+import {Dump} from "./Dump";
+
+
+export type RetentionProps = {
+    keepLast?: number;
+    keepDaily?: number;
+    keepWeekly?: number;
+    keepMonthly?: number;
+};
+
+export class Retention {
+    public keepLast?: number;
+    public keepDaily?: number;
+    public keepWeekly?: number;
+    public keepMonthly?: number;
+
+    public constructor(data: RetentionProps = {}) {
+        const {
+            keepLast,
+            keepDaily,
+            keepWeekly,
+            keepMonthly
+        } = data;
+
+        this.keepLast = keepLast || undefined;
+        this.keepDaily = keepDaily || undefined;
+        this.keepWeekly = keepWeekly || undefined;
+        this.keepMonthly = keepMonthly || undefined;
+    }
+
+    public get isEmpty(): boolean {
+        return !this.keepLast && !this.keepDaily && !this.keepWeekly && !this.keepMonthly;
+    }
+
+    /**
+     * Returns dumps which are not covered by any rule of the policy.
+     * Every rule keeps the newest dump of each of its N most recent periods.
+     */
+    public getExpired(dumps: Dump[]): Dump[] {
+        if(this.isEmpty) {
+            return [];
+        }
+
+        const sorted = [...dumps].sort((a, b) => {
+            return b.createdAt.getTime() - a.createdAt.getTime();
+        });
+
+        const keep = new Set<Dump>(sorted.slice(0, this.keepLast || 0));
+
+        const rules: [number | undefined, string][] = [
+            [this.keepDaily, "yyyy-MM-dd"],
+            [this.keepWeekly, "RRRR-II"],
+            [this.keepMonthly, "yyyy-MM"]
+        ];
+
+        for(const [count, period] of rules) {
+            if(!count) {
+                continue;
+            }
+
+            const periods = new Set<string>();
+
+            for(const dump of sorted) {
+                const key = dateFormat(dump.createdAt, period);
+
+                if(periods.has(key)) {
+                    continue;
+                }
+
+                if(periods.size >= count) {
+                    break;
+                }
+
+                periods.add(key);
+                keep.add(dump);
+            }
+        }
+
+        return sorted.filter((dump) => {
+            return !keep.has(dump);
+        });
+    }
+
+    public toString(): string {
+        if(this.isEmpty) {
+            return "keep all";
+        }
+
+        return [
+            this.keepLast ? `last ${this.keepLast}` : "",
+            this.keepDaily ? `daily ${this.keepDaily}` : "",
+            this.keepWeekly ? `weekly ${this.keepWeekly}` : "",
+            this.keepMonthly ? `monthly ${this.keepMonthly}` : ""
+        ].filter(Boolean).join(", ");
+    }
+
+    public toObject(): RetentionProps | undefined {
+        if(this.isEmpty) {
+            return undefined;
+        }
+
+        return {
+            keepLast: this.keepLast,
+            keepDaily: this.keepDaily,
+            keepWeekly: this.keepWeekly,
+            keepMonthly: this.keepMonthly
+        };
+    }
+}
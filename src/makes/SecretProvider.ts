@@ -0,0 +1,7 @@
+export abstract class SecretProvider {
+    public abstract get(key: string): string | undefined;
+
+    public abstract set(key: string, value: string): void;
+
+    public abstract delete(key: string): void;
+}
@@ -1,4 +1,5 @@
 import {EnvConfig} from "@wocker/core";
+import {Retention, RetentionProps} from "./Retention";
 
 
 export const STORAGE_FILESYSTEM = "filesystem";
@@ -6,21 +7,28 @@ export const STORAGE_VOLUME = "volume";
 
 export type ServiceStorageType = typeof STORAGE_FILESYSTEM | typeof STORAGE_VOLUME;
 
+export type ServerOptions = {
+    [name: string]: string;
+};
+
 export type ServiceProps = {
     name: string;
     host?: string;
-    user?: string;
     username?: string;
     password?: string;
+    passwordSecret?: string;
     passwordHash?: string;
     rootPassword?: string;
+    rootPasswordSecret?: string;
     storage?: ServiceStorageType;
     volume?: string;
-    image?: string;
     imageName?: string;
     imageVersion?: string;
     env?: EnvConfig;
     containerPort?: number;
+    retention?: RetentionProps;
+    serverOptions?: ServerOptions;
+    seeds?: string[];
 };
 
 export class Service {
@@ -28,45 +36,60 @@ export class Service {
     public host?: string;
     public username?: string;
     public password?: string;
+    public passwordSecret?: string;
     public passwordHash?: string;
     public rootPassword?: string;
+    public rootPasswordSecret?: string;
     public storage?: ServiceStorageType;
     public _volume?: string;
     public imageName: string;
     public imageVersion: string;
     public env?: EnvConfig;
     public containerPort?: number;
+    public retention?: Retention;
+    public serverOptions?: ServerOptions;
+    public seeds?: string[];
 
     public constructor(data: ServiceProps) {
         const {
             name,
             host,
-            user,
             username,
             password,
+            passwordSecret,
             passwordHash,
             rootPassword,
+            rootPasswordSecret,
             storage,
             volume,
-            image,
-            imageName = image || "mariadb",
+            imageName = "mariadb",
             imageVersion = "latest",
             env,
-            containerPort
+            containerPort,
+            retention,
+            serverOptions,
+            seeds
         } = data;
 
         this.name = name;
         this.host = host;
-        this.username = username || user;
+        this.username = username;
         this.password = password;
+        this.passwordSecret = passwordSecret;
         this.passwordHash = passwordHash;
-        this.rootPassword = rootPassword || password;
+        // Local services of configs without a root password secret fall back to the user password,
+        // external ones only connect as the configured user
+        this.rootPassword = rootPassword || (host || rootPasswordSecret ? undefined : password);
+        this.rootPasswordSecret = rootPasswordSecret;
         this.storage = storage;
         this._volume = volume;
         this.imageName = imageName;
         this.imageVersion = imageVersion;
         this.env = env;
         this.containerPort = containerPort;
+        this.retention = retention ? new Retention(retention) : undefined;
+        this.serverOptions = serverOptions;
+        this.seeds = seeds;
 
         if(!host && !storage) {
             this.storage = STORAGE_FILESYSTEM;
@@ -78,24 +101,35 @@ export class Service {
 
         if(!this.host) {
             cmd.push("-uroot");
-
-            if(this.rootPassword) {
-                cmd.push(`-p${this.rootPassword}`);
-            }
         }
         else {
-            if(this.username) {
-                cmd.push(`-u${this.username}`);
+            const [host, port] = this.host.split(":");
+
+            cmd.push(`-h${host}`);
+
+            if(port) {
+                cmd.push(`-P${port}`);
             }
 
-            if(this.password) {
-                cmd.push(`-p${this.password}`);
+            if(this.username) {
+                cmd.push(`-u${this.username}`);
             }
         }
 
         return cmd;
     }
 
+    /**
+     * Passwords are passed to the clients through the exec environment to keep them out of argv.
+     */
+    public get authEnv(): string[] {
+        const password = !this.host
+            ? this.rootPassword
+            : this.password;
+
+        return password ? [`MYSQL_PWD=${password}`] : [];
+    }
+
     public get imageTag(): string {
         return `${this.imageName}:${this.imageVersion}`;
     }
@@ -104,6 +138,10 @@ export class Service {
         return `mariadb-${this.name}.ws`;
     }
 
+    public getClientContainerName(id: string): string {
+        return `mariadb-${this.name}-client-${id}.ws`;
+    }
+
     public get volume(): string {
         if(!this._volume) {
             this._volume = this.defaultVolume;
@@ -126,14 +164,19 @@ export class Service {
             host: this.host,
             username: this.username,
             password: this.password,
+            passwordSecret: this.passwordSecret,
             passwordHash: this.passwordHash,
             rootPassword: this.rootPassword,
+            rootPasswordSecret: this.rootPasswordSecret,
             storage: this.storage,
             volume: this._volume,
             imageName: this.imageName,
             imageVersion: this.imageVersion,
             env: this.env,
-            containerPort: this.containerPort
+            containerPort: this.containerPort,
+            retention: this.retention?.toObject(),
+            serverOptions: this.serverOptions,
+            seeds: this.seeds
         };
     }
 }
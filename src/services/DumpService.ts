@@ -1,4 +1,15 @@
-import {Injectable, PluginConfigService} from "@wocker/core";
+import {FileSystem, Injectable, PluginConfigService} from "@wocker/core";
+import {createHash} from "crypto";
+import {PassThrough, Readable, Transform} from "stream";
+import * as zlib from "zlib";
+import {
+    Dump,
+    DumpProps,
+    DumpCompression,
+    COMPRESSION_NONE,
+    COMPRESSION_GZIP,
+    COMPRESSION_ZSTD
+} from "../makes/Dump";
 
 
 @Injectable()
@@ -7,7 +18,240 @@ export class DumpService {
         protected readonly configService: PluginConfigService
     ) {}
 
-    public async dumps() {
-        //
+    public get fs(): FileSystem {
+        return this.configService.fs;
+    }
+
+    public getServices(): string[] {
+        if(!this.fs.exists("dump")) {
+            return [];
+        }
+
+        return this.fs.readdir("dump");
+    }
+
+    public getDatabases(service: string): string[] {
+        if(!this.fs.exists(`dump/${service}`)) {
+            return [];
+        }
+
+        return this.fs.readdir(`dump/${service}`);
+    }
+
+    public getFiles(service: string, database: string): string[] {
+        if(!this.fs.exists(`dump/${service}/${database}`)) {
+            return [];
+        }
+
+        return this.fs.readdir(`dump/${service}/${database}`).filter((filename: string) => {
+            return !Dump.isMetaFile(filename);
+        });
+    }
+
+    public async dumps(service?: string, database?: string): Promise<Dump[]> {
+        const services = service ? [service] : this.getServices();
+        const dumps: Dump[] = [];
+
+        for(const service of services) {
+            const databases = database ? [database] : this.getDatabases(service);
+
+            for(const database of databases) {
+                for(const filename of this.getFiles(service, database)) {
+                    dumps.push(this.getDump(service, database, filename));
+                }
+            }
+        }
+
+        return dumps.sort((a, b) => {
+            return b.createdAt.getTime() - a.createdAt.getTime();
+        });
+    }
+
+    public hasDump(service: string, database: string, filename: string): boolean {
+        return this.fs.exists(`dump/${service}/${database}/${filename}`);
+    }
+
+    public getDump(service: string, database: string, filename: string): Dump {
+        const path = `dump/${service}/${database}/${filename}`;
+
+        if(!this.fs.exists(path)) {
+            throw new Error(`File "${filename}" does not exists.`);
+        }
+
+        const metaPath = Dump.getMetaPath(path);
+
+        if(this.fs.exists(metaPath)) {
+            const data: DumpProps = this.fs.readJSON(metaPath);
+
+            return new Dump({
+                ...data,
+                service,
+                database,
+                filename
+            });
+        }
+
+        // Backups made before the catalog existed have no metadata
+        const stat = this.fs.stat(path);
+
+        return new Dump({
+            service,
+            database,
+            filename,
+            size: stat.size,
+            createdAt: stat.mtime.toISOString()
+        });
+    }
+
+    public async save(dump: Dump): Promise<void> {
+        const stat = this.fs.stat(dump.path);
+
+        dump.size = stat.size;
+        dump.checksum = await this.checksum(dump.path);
+
+        this.fs.writeJSON(dump.metaPath, dump.toObject());
+    }
+
+    public async delete(dump: Dump): Promise<void> {
+        this.fs.rm(dump.path);
+
+        if(this.fs.exists(dump.metaPath)) {
+            this.fs.rm(dump.metaPath);
+        }
+    }
+
+    public async getCompression(dump: Dump): Promise<DumpCompression> {
+        if(dump.compression) {
+            return dump.compression;
+        }
+
+        const compression = Dump.getCompressionByFilename(dump.filename);
+
+        if(compression) {
+            return compression;
+        }
+
+        const header = await new Promise<Buffer>((resolve, reject) => {
+            const file = this.fs.createReadStream(dump.path, {
+                start: 0,
+                end: 3
+            });
+
+            const chunks: Buffer[] = [];
+
+            file.on("data", (data) => {
+                chunks.push(Buffer.from(data));
+            });
+
+            file.on("end", () => resolve(Buffer.concat(chunks)));
+            file.on("error", reject);
+        });
+
+        return this.getCompressionByHeader(header);
+    }
+
+    /**
+     * Detects compression by the first chunk of the stream and puts the chunk back.
+     */
+    public async getStreamCompression(stream: Readable): Promise<DumpCompression> {
+        const header = await new Promise<Buffer | null>((resolve, reject) => {
+            const onReadable = (): void => {
+                cleanup();
+                resolve(stream.read());
+            };
+
+            const onEnd = (): void => {
+                cleanup();
+                resolve(null);
+            };
+
+            const onError = (err: Error): void => {
+                cleanup();
+                reject(err);
+            };
+
+            const cleanup = (): void => {
+                stream.off("readable", onReadable);
+                stream.off("end", onEnd);
+                stream.off("error", onError);
+            };
+
+            stream.on("readable", onReadable);
+            stream.on("end", onEnd);
+            stream.on("error", onError);
+        });
+
+        if(!header) {
+            return COMPRESSION_NONE;
+        }
+
+        stream.unshift(header);
+
+        return this.getCompressionByHeader(Buffer.from(header));
+    }
+
+    public createCompressStream(compression?: DumpCompression): Transform {
+        switch(compression) {
+            case COMPRESSION_GZIP:
+                return zlib.createGzip();
+
+            case COMPRESSION_ZSTD:
+                if(typeof zlib.createZstdCompress !== "function") {
+                    throw new Error("zstd compression requires Node.js 22.15 or newer");
+                }
+
+                return zlib.createZstdCompress();
+
+            case COMPRESSION_NONE:
+            default:
+                return new PassThrough();
+        }
+    }
+
+    public createDecompressStream(compression?: DumpCompression): Transform {
+        switch(compression) {
+            case COMPRESSION_GZIP:
+                return zlib.createGunzip();
+
+            case COMPRESSION_ZSTD:
+                if(typeof zlib.createZstdDecompress !== "function") {
+                    throw new Error("zstd decompression requires Node.js 22.15 or newer");
+                }
+
+                return zlib.createZstdDecompress();
+
+            case COMPRESSION_NONE:
+            default:
+                return new PassThrough();
+        }
+    }
+
+    protected getCompressionByHeader(header: Buffer): DumpCompression {
+        if(header[0] === 0x1f && header[1] === 0x8b) {
+            return COMPRESSION_GZIP;
+        }
+
+        if(header.length >= 4 && header.readUInt32LE(0) === 0xfd2fb528) {
+            return COMPRESSION_ZSTD;
+        }
+
+        return COMPRESSION_NONE;
+    }
+
+    protected async checksum(path: string): Promise<string> {
+        const hash = createHash("sha256");
+
+        await new Promise<void>((resolve, reject) => {
+            const file = this.fs.createReadStream(path);
+
+            file.on("data", (data) => {
+                hash.update(data);
+            });
+
+            file.on("end", resolve);
+            file.on("error", reject);
+        });
+
+        return `sha256:${hash.digest("hex")}`;
     }
 }
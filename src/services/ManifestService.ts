@@ -0,0 +1,355 @@
+import {DockerService, Injectable} from "@wocker/core";
+import * as FS from "fs";
+import * as Path from "path";
+import {AdminConfig} from "../makes/Config";
+import {Manifest, ManifestServiceProps, ManifestUserProps, MANIFEST_FILENAMES} from "../makes/Manifest";
+import {Service, ServiceProps} from "../makes/Service";
+import {MariadbService} from "./MariadbService";
+import {PromptService} from "./PromptService";
+import {SecretService} from "./SecretService";
+import {pickFields} from "../utils";
+
+
+type PlanStep = {
+    sign: "+" | "~";
+    description: string;
+    run: () => Promise<void>;
+};
+
+const UPGRADE_FIELDS = ["imageName", "imageVersion", "storage", "volume", "containerPort"] as const;
+const SETTINGS_FIELDS = ["env", "serverOptions", "seeds", "passwordHash"] as const;
+const ADMIN_FIELDS = ["enabled", "type", "hostname", "imageName", "imageVersion", "language", "theme", "uploadLimit"] as const;
+
+@Injectable()
+export class ManifestService {
+    public constructor(
+        protected readonly dockerService: DockerService,
+        protected readonly mariadbService: MariadbService,
+        protected readonly secretService: SecretService,
+        protected readonly promptService: PromptService
+    ) {}
+
+    public load(path?: string): Manifest {
+        if(!path) {
+            path = MANIFEST_FILENAMES.find((filename) => {
+                return FS.existsSync(Path.resolve(filename));
+            });
+
+            if(!path) {
+                throw new Error(`None of ${MANIFEST_FILENAMES.join(", ")} found in the current directory`);
+            }
+        }
+
+        const file = Path.resolve(path);
+
+        if(!FS.existsSync(file)) {
+            throw new Error(`File "${path}" does not exists.`);
+        }
+
+        return Manifest.parse(FS.readFileSync(file).toString(), path);
+    }
+
+    public async plan(path?: string): Promise<string> {
+        const steps = await this.getSteps(this.load(path));
+
+        return this.render(steps);
+    }
+
+    public async apply(path?: string, yes?: boolean): Promise<void> {
+        const steps = await this.getSteps(this.load(path));
+
+        process.stdout.write(this.render(steps));
+
+        if(steps.length === 0) {
+            return;
+        }
+
+        if(!yes) {
+            const confirm = await this.promptService.confirm("--yes", {
+                message: "Apply these changes?",
+                default: false
+            });
+
+            if(!confirm) {
+                throw new Error("Aborted");
+            }
+        }
+
+        for(const step of steps) {
+            await step.run();
+        }
+
+        await this.mariadbService.startAdmin();
+    }
+
+    protected render(steps: PlanStep[]): string {
+        if(steps.length === 0) {
+            return "No changes\n";
+        }
+
+        return steps.map((step) => {
+            return `${step.sign} ${step.description}\n`;
+        }).join("");
+    }
+
+    protected async getSteps(manifest: Manifest): Promise<PlanStep[]> {
+        const config = this.mariadbService.config;
+        const steps: PlanStep[] = [];
+
+        if(manifest.admin) {
+            const admin = manifest.admin;
+
+            const changes = ADMIN_FIELDS.filter((key) => {
+                return typeof admin[key] !== "undefined" && admin[key] !== config.admin[key];
+            });
+
+            if(changes.length > 0) {
+                steps.push({
+                    sign: "~",
+                    description: `admin: ${changes.map((key) => this.diff(key, config.admin[key], admin[key])).join(", ")}`,
+                    run: async () => {
+                        config.admin = {
+                            ...config.admin,
+                            ...admin
+                        } as AdminConfig;
+                        config.save();
+                    }
+                });
+            }
+        }
+
+        for(const props of manifest.services) {
+            steps.push(...await this.getServiceSteps(props));
+        }
+
+        if(manifest.default && manifest.default !== config.default) {
+            steps.push({
+                sign: "~",
+                description: this.diff("default", config.default, manifest.default),
+                run: async () => {
+                    await this.mariadbService.setDefault(manifest.default as string);
+                }
+            });
+        }
+
+        return steps;
+    }
+
+    protected async getServiceSteps(props: ManifestServiceProps): Promise<PlanStep[]> {
+        const config = this.mariadbService.config;
+        const {
+            databases = [],
+            users = [],
+            ...serviceProps
+        } = props;
+        const steps: PlanStep[] = [];
+
+        const exists = config.hasService(props.name);
+        const current = exists ? config.getService(props.name) : undefined;
+
+        if(!current) {
+            this.checkCreateProps(serviceProps);
+
+            steps.push({
+                sign: "+",
+                description: `service ${props.name}${props.host ? ` (external ${props.host})` : ` (${new Service(serviceProps).imageTag})`}`,
+                run: async () => {
+                    await this.createService(serviceProps);
+                }
+            });
+        }
+        else {
+            if(props.host !== current.host) {
+                throw new Error(`Host of "${props.name}" service can't be changed, destroy and create it instead`);
+            }
+
+            const upgrade = UPGRADE_FIELDS.filter((key) => {
+                return typeof props[key] !== "undefined" && props[key] !== current[key];
+            });
+
+            if(upgrade.length > 0) {
+                steps.push({
+                    sign: "~",
+                    description: `service ${props.name}: ${upgrade.map((key) => this.diff(key, current[key], props[key])).join(", ")}`,
+                    run: async () => {
+                        const changes: Partial<ServiceProps> = {
+                            name: props.name,
+                            ...pickFields(props, upgrade)
+                        };
+
+                        await this.mariadbService.upgrade(changes, false, true);
+                    }
+                });
+            }
+
+            const settings = SETTINGS_FIELDS.filter((key) => {
+                return typeof props[key] !== "undefined" && JSON.stringify(props[key]) !== JSON.stringify(current[key]);
+            });
+
+            if(settings.length > 0) {
+                steps.push({
+                    sign: "~",
+                    description: `service ${props.name}: ${settings.join(", ")} changed`,
+                    run: async () => {
+                        const fields: Partial<Pick<Service, typeof SETTINGS_FIELDS[number]>> = pickFields(props, settings);
+                        const service = Object.assign(config.getService(props.name), fields);
+
+                        config.setService(service);
+                        config.save();
+                    }
+                });
+            }
+        }
+
+        let online = !!current && !!current.host;
+
+        if(!props.host) {
+            const container = current
+                ? await this.dockerService.getContainer(current.containerName)
+                : null;
+
+            let reason = "";
+
+            if(!container) {
+                reason = "not started";
+            }
+            else if(!(await container.inspect()).State.Running) {
+                reason = "stopped";
+            }
+            else if(steps.length > 0 || await this.mariadbService.isContainerOutdated(current as Service, container)) {
+                online = true;
+                reason = "configuration changed";
+            }
+            else {
+                online = true;
+            }
+
+            if(reason) {
+                steps.push({
+                    sign: "~",
+                    description: `start ${props.name} (${reason})`,
+                    run: async () => {
+                        await this.mariadbService.start(props.name);
+                    }
+                });
+            }
+        }
+
+        let existingDatabases: string[] = [];
+        let existingUsers: string[] = [];
+
+        if(current && online && (databases.length > 0 || users.length > 0)) {
+            try {
+                await this.mariadbService.useContainer(current, async () => {
+                    existingDatabases = await this.mariadbService.getDatabases(current);
+                    existingUsers = await this.mariadbService.getUsers(current);
+                });
+            }
+            catch(err) {
+                // Unreachable servers are planned as empty, apply checks again before creating
+            }
+        }
+
+        for(const database of databases) {
+            if(existingDatabases.includes(database)) {
+                continue;
+            }
+
+            steps.push({
+                sign: "+",
+                description: `database ${props.name}/${database}`,
+                run: async () => {
+                    await this.mariadbService.createDatabase(props.name, database);
+                }
+            });
+        }
+
+        for(const user of users) {
+            steps.push(...this.getUserSteps(props.name, user, existingUsers.includes(user.name)));
+        }
+
+        return steps;
+    }
+
+    /**
+     * Services are created without the prompts of mariadb:create, so the manifest has to provide the credentials.
+     */
+    protected checkCreateProps(props: ServiceProps): void {
+        const missing: string[] = [];
+
+        if(!props.username) {
+            missing.push("username");
+        }
+
+        if(!props.password && !props.passwordSecret) {
+            missing.push("password or passwordSecret");
+        }
+
+        if(!props.host && props.username !== "root" && !props.rootPassword && !props.rootPasswordSecret) {
+            missing.push("rootPassword or rootPasswordSecret");
+        }
+
+        if(missing.length > 0) {
+            throw new Error(`Service "${props.name}" can't be created from the manifest, ${missing.join(", ")} required`);
+        }
+    }
+
+    protected async createService(props: ServiceProps): Promise<void> {
+        const config = this.mariadbService.config;
+        const service = new Service(this.secretService.hydrate(props));
+
+        if(!service.password || (!service.host && !service.rootPassword)) {
+            throw new Error(`Password secrets of "${props.name}" service are empty`);
+        }
+
+        config.setService(service);
+        config.save();
+    }
+
+    protected getUserSteps(service: string, user: ManifestUserProps, exists: boolean): PlanStep[] {
+        const {
+            name,
+            host = "%",
+            databases = [],
+            privileges
+        } = user;
+
+        if(exists) {
+            return [];
+        }
+
+        return [
+            {
+                sign: "+",
+                description: `user ${service}/${name}@${host}${databases.length > 0 ? ` with access to ${databases.join(", ")}` : ""}`,
+                run: async () => {
+                    const current = this.mariadbService.config.getService(service);
+
+                    await this.mariadbService.useContainer(current, async () => {
+                        if((await this.mariadbService.getUsers(current)).includes(name)) {
+                            return;
+                        }
+
+                        const password = user.passwordSecret
+                            ? this.secretService.get(user.passwordSecret)
+                            : user.password;
+
+                        if(!password) {
+                            throw new Error(`Password of "${name}" user is missing`);
+                        }
+
+                        await this.mariadbService.createUser(service, name, password, host);
+
+                        for(const database of databases) {
+                            await this.mariadbService.grant(service, name, database, privileges, host);
+                        }
+                    });
+                }
+            }
+        ];
+    }
+
+    protected diff(key: string, from: unknown, to: unknown): string {
+        return `${key} ${typeof from === "undefined" ? "(none)" : from} -> ${to}`;
+    }
+}
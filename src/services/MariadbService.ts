@@ -1,21 +1,125 @@
-import {AppConfigService, DockerService, FileSystem, Injectable, PluginConfigService, ProxyService} from "@wocker/core";
-import {promptInput, promptConfirm, promptSelect} from "@wocker/utils";
+import {
+    AppConfigService,
+    DockerService,
+    EnvConfig,
+    FileSystem,
+    Injectable,
+    PluginConfigService,
+    ProjectService,
+    ProxyService
+} from "@wocker/core";
+import type {Container, ContainerLogsOptions, HealthConfig} from "dockerode";
+import * as FS from "fs";
 import * as Path from "path";
+import {PassThrough, Readable, Writable} from "stream";
+import {createHash, randomBytes} from "crypto";
+import * as zlib from "zlib";
 import CliTable from "cli-table3";
 import {format as dateFormat} from "date-fns/format";
-import {Config} from "../makes/Config";
-import {Service, ServiceProps, ServiceStorageType, STORAGE_FILESYSTEM, STORAGE_VOLUME} from "../makes/Service";
-
+import {formatDistanceToNow} from "date-fns/formatDistanceToNow";
+import {Adminer} from "../makes/Adminer";
+import {
+    AdminUi,
+    AdminType,
+    ADMIN_ADMINER,
+    ADMIN_NONE,
+    ADMIN_PHPMYADMIN
+} from "../makes/AdminUi";
+import {AdminConfig, Config} from "../makes/Config";
+import {
+    Dump,
+    DumpCompression,
+    COMPRESSION_EXTENSIONS,
+    COMPRESSION_NONE,
+    COMPRESSION_GZIP,
+    COMPRESSION_ZSTD
+} from "../makes/Dump";
+import {PhpMyAdmin} from "../makes/PhpMyAdmin";
+import {RetentionProps, Retention} from "../makes/Retention";
+import {
+    Service,
+    ServiceProps,
+    ServiceStorageType,
+    ServerOptions,
+    STORAGE_FILESYSTEM,
+    STORAGE_VOLUME
+} from "../makes/Service";
+import {DumpService} from "./DumpService";
+import {PromptService} from "./PromptService";
+import {SecretService} from "./SecretService";
+import {QueryRow} from "../types";
+import {
+    escapeIdentifier,
+    escapeString,
+    formatSize,
+    parseResultSet,
+    parseSince,
+    parseVariables
+} from "../utils";
+
+
+const LABEL_CONFIG_HASH = "wocker.mariadb.config-hash";
+const LABEL_ENV_HASH = "wocker.mariadb.env-hash";
+const DEFAULT_READY_TIMEOUT = 60;
+const SLOW_LOG_FILE = "/var/lib/mysql/slow.log";
+const NANOSECONDS = 1000000000;
+// escapeString() leaves backslashes as they are, so queries must not read them as escapes
+const SQL_MODE_NO_BACKSLASH_ESCAPES = "SET SESSION sql_mode = CONCAT_WS(',', NULLIF(@@sql_mode, ''), 'NO_BACKSLASH_ESCAPES');";
+
+// mariadb-admin ping exits with 0 even on access denied, so no credentials are needed; it covers images without healthcheck.sh
+const HEALTHCHECK = {
+    Test: ["CMD-SHELL", "healthcheck.sh --connect || mariadb-admin --protocol=tcp -h127.0.0.1 ping"],
+    Interval: 10 * NANOSECONDS,
+    Timeout: 5 * NANOSECONDS,
+    Retries: 3,
+    StartPeriod: DEFAULT_READY_TIMEOUT * NANOSECONDS
+};
+
+type ContainerParams = {
+    env: EnvConfig;
+    volumes: string[];
+    ports: string[];
+    labels: {[name: string]: string};
+    healthcheck: typeof HEALTHCHECK;
+    files: {[path: string]: string};
+    secrets: {[path: string]: string};
+};
+
+type LogsOptions = {
+    follow?: boolean;
+    tail?: number;
+    since?: string;
+    slow?: boolean;
+    admin?: boolean;
+};
+
+type ServiceStatus = {
+    name: string;
+    host: string;
+    image: string;
+    state: string;
+    startedAt?: string;
+    version?: string;
+    datadirSize?: number;
+    connections?: number;
+    databases?: {name: string; size: number;}[];
+    warnings: string[];
+};
 
 @Injectable()
 export class MariadbService {
     protected _config?: Config;
+    protected clients: Map<string, Container> = new Map();
 
     public constructor(
         protected readonly appConfigService: AppConfigService,
         protected readonly pluginConfigService: PluginConfigService,
         protected readonly dockerService: DockerService,
-        protected readonly proxyService: ProxyService
+        protected readonly projectService: ProjectService,
+        protected readonly proxyService: ProxyService,
+        protected readonly dumpService: DumpService,
+        protected readonly secretService: SecretService,
+        protected readonly promptService: PromptService
     ) {}
 
     public get configPath(): string {
@@ -26,7 +130,8 @@ export class MariadbService {
         if(!this._config) {
             this._config = Config.make(
                 this.fs,
-                this.configPath
+                this.configPath,
+                this.secretService
             );
         }
 
@@ -45,83 +150,404 @@ export class MariadbService {
         return new FileSystem(Path.join(__dirname, "../../data"));
     }
 
-    protected async query(service: Service, query: string): Promise<string | null> {
-        const container = await this.dockerService.getContainer(service.containerName);
+    /**
+     * Nested calls reuse the client container of an external service,
+     * so a command creates it once however many queries it runs.
+     */
+    public async useContainer<T>(service: Service, handler: (container: Container) => Promise<T>): Promise<T> {
+        if(!service.host) {
+            const container = await this.dockerService.getContainer(service.containerName);
 
-        if(!container) {
-            return null;
+            if(!container) {
+                throw new Error(`Service "${service.name}" is not started`);
+            }
+
+            return handler(container);
         }
 
-        const exec = await container.exec({
-            Cmd: ["mariadb", ...service.auth, "-e", query],
-            AttachStdout: true,
-            AttachStderr: true
+        const client = this.clients.get(service.name);
+
+        if(client) {
+            return handler(client);
+        }
+
+        // External services have no container, so the client runs in a throwaway one,
+        // named uniquely to not collide with other commands running against the same service
+        const name = service.getClientContainerName(randomBytes(4).toString("hex"));
+
+        await this.dockerService.pullImage(service.imageTag);
+
+        const container = await this.dockerService.createContainer({
+            name,
+            image: service.imageTag,
+            entrypoint: ["sleep"],
+            cmd: ["infinity"]
         });
 
-        const stream = await exec.start({});
+        this.clients.set(service.name, container);
 
-        return new Promise<string>((resolve, reject) => {
-            let result = "";
+        try {
+            await container.start();
 
-            stream.on("data", (data: any) => {
-                result += data.toString();
-            });
+            return await handler(container);
+        }
+        finally {
+            this.clients.delete(service.name);
 
-            stream.on("end", () => {
-                resolve(result);
-            });
+            await this.dockerService.removeContainer(name);
+        }
+    }
 
-            stream.on("error", reject);
+    public async query<T extends QueryRow = QueryRow>(service: Service, sql: string, database?: string): Promise<T[]> {
+        return this.useContainer(service, async (container) => {
+            const output = await this.execCommand(container, [
+                "mariadb",
+                ...service.auth,
+                "--xml",
+                "-e", `${SQL_MODE_NO_BACKSLASH_ESCAPES} ${sql}`,
+                ...database ? [database] : []
+            ], service.authEnv);
+
+            return parseResultSet(output) as T[];
         });
     }
 
     public async getDatabases(service: Service): Promise<string[]> {
-        const res = await this.query(service, "SHOW DATABASES;");
+        const rows = await this.query<{name: string;}>(service, [
+            "SELECT SCHEMA_NAME AS name FROM information_schema.SCHEMATA",
+            "WHERE SCHEMA_NAME NOT IN ('mysql', 'information_schema', 'performance_schema', 'sys')",
+            "ORDER BY SCHEMA_NAME;"
+        ].join(" "));
+
+        return rows.map((row) => {
+            return row.name;
+        });
+    }
+
+    public async getUsers(service: Service): Promise<string[]> {
+        const rows = await this.query<{name: string;}>(service, [
+            "SELECT DISTINCT User AS name FROM mysql.user",
+            "WHERE User NOT IN ('', 'root', 'mysql', 'mariadb.sys', 'PUBLIC')",
+            "ORDER BY User;"
+        ].join(" "));
+
+        return rows.map((row) => {
+            return row.name;
+        });
+    }
+
+    public async createDatabase(name?: string, database?: string, charset?: string, collation?: string): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        if(!database) {
+            database = await this.promptService.input("[database]", {
+                message: "Database:",
+                required: true
+            }) as string;
+        }
+
+        const sql = [
+            `CREATE DATABASE IF NOT EXISTS ${escapeIdentifier(database)}`,
+            charset ? `CHARACTER SET ${escapeString(charset)}` : "",
+            collation ? `COLLATE ${escapeString(collation)}` : ""
+        ].filter(Boolean).join(" ");
+
+        await this.query(service, `${sql};`);
+
+        console.info(`Database "${database}" created`);
+    }
+
+    public async dropDatabase(name?: string, database?: string, yes?: boolean): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        await this.useContainer(service, async () => {
+            if(!database) {
+                database = await this.promptService.select("[database]", {
+                    message: "Database:",
+                    options: await this.getDatabases(service)
+                });
+            }
+
+            if(!yes) {
+                const confirm = await this.promptService.confirm("--yes", {
+                    message: `Are you sure you want to drop the "${database}" database? All data will be lost.`,
+                    default: false
+                });
+
+                if(!confirm) {
+                    throw new Error("Aborted");
+                }
+            }
+
+            await this.query(service, `DROP DATABASE ${escapeIdentifier(database as string)};`);
+
+            console.info(`Database "${database}" dropped`);
+        });
+    }
+
+    public async createUser(name?: string, username?: string, password?: string, host: string = "%"): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        if(!username) {
+            username = await this.promptService.input("[username]", {
+                message: "User:",
+                required: true
+            }) as string;
+        }
+
+        if(!password) {
+            password = await this.promptService.password("--password", "Password:", true);
+
+            if(!this.promptService.interactive) {
+                console.info(`Generated password: ${password}`);
+            }
+        }
+
+        await this.query(service, `CREATE USER ${escapeString(username)}@${escapeString(host)} IDENTIFIED BY ${escapeString(password)};`);
+
+        console.info(`User "${username}"@"${host}" created`);
+    }
+
+    public async dropUser(name?: string, username?: string, host: string = "%", yes?: boolean): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        await this.useContainer(service, async () => {
+            if(!username) {
+                username = await this.promptService.select("[username]", {
+                    message: "User:",
+                    options: await this.getUsers(service)
+                });
+            }
+
+            if(!yes) {
+                const confirm = await this.promptService.confirm("--yes", {
+                    message: `Are you sure you want to drop the "${username}"@"${host}" user?`,
+                    default: false
+                });
+
+                if(!confirm) {
+                    throw new Error("Aborted");
+                }
+            }
+
+            await this.query(service, `DROP USER ${escapeString(username as string)}@${escapeString(host)};`);
+
+            console.info(`User "${username}"@"${host}" dropped`);
+        });
+    }
+
+    public async grant(name?: string, username?: string, database?: string, privileges: string = "ALL PRIVILEGES", host: string = "%"): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        if(!/^[a-z ,]+$/i.test(privileges)) {
+            throw new Error(`Invalid privileges "${privileges}"`);
+        }
+
+        await this.useContainer(service, async () => {
+            if(!username) {
+                username = await this.promptService.select("[username]", {
+                    message: "User:",
+                    options: await this.getUsers(service)
+                });
+            }
+
+            if(!database) {
+                database = await this.promptService.select("--database", {
+                    message: "Database:",
+                    options: ["*", ...await this.getDatabases(service)]
+                });
+            }
+
+            const target = database === "*" ? "*.*" : `${escapeIdentifier(database as string)}.*`;
+
+            await this.query(service, `GRANT ${privileges} ON ${target} TO ${escapeString(username as string)}@${escapeString(host)}; FLUSH PRIVILEGES;`);
+
+            console.info(`Granted ${privileges} on ${target} to "${username}"@"${host}"`);
+        });
+    }
+
+    public async password(name?: string, username?: string, password?: string): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        if(!username) {
+            username = service.host ? service.username : "root";
+        }
+
+        if(!username) {
+            throw new Error("User name required");
+        }
 
-        if(!res) {
-            return [];
+        if(!password) {
+            password = await this.promptService.password("--password", "New password:");
         }
 
-        return res.split(/\r?\n/)
-            .filter((database) => {
-                return !!database && !/Database$/.test(database);
-            })
-            .filter((database) => {
-                return database !== "mysql";
-            })
-            .filter((database) => {
-                return !/_schema/.test(database);
+        // Users of external servers usually can't read mysql.user, but can always change their own password
+        if(service.host && username === service.username) {
+            await this.query(service, `ALTER USER CURRENT_USER() IDENTIFIED BY ${escapeString(password)};`);
+        }
+        else {
+            await this.useContainer(service, async () => {
+                const hosts = await this.query<{Host: string}>(service, `SELECT Host FROM mysql.user WHERE User = ${escapeString(username as string)};`);
+
+                if(hosts.length === 0) {
+                    throw new Error(`User "${username}" not found`);
+                }
+
+                await this.query(service, hosts.map(({Host}) => {
+                    return `ALTER USER ${escapeString(username as string)}@${escapeString(Host)} IDENTIFIED BY ${escapeString(password as string)};`;
+                }).join(" "));
             });
+        }
+
+        console.info(`Password of "${username}" changed`);
+
+        const isRoot = !service.host && username === "root";
+        const isUser = username === service.username;
+
+        if(!isRoot && !isUser) {
+            return;
+        }
+
+        if(isRoot) {
+            service.rootPassword = password;
+            // The hash is only used on first start and would now restore the old password
+            delete service.passwordHash;
+        }
+
+        if(isUser) {
+            service.password = password;
+        }
+
+        for(const ref of [isRoot ? service.rootPasswordSecret : undefined, isUser ? service.passwordSecret : undefined]) {
+            if(ref && ref.startsWith("env:")) {
+                console.info(`Password is read from "${ref}", update the variable as well`);
+            }
+        }
+
+        this.config.setService(service);
+        this.config.save();
+
+        await this.startAdmin();
+
+        for(const project of this.projectService.search()) {
+            if(project.getMeta("MARIADB_SERVICE") !== service.name || project.getEnv("DB_USERNAME") !== username) {
+                continue;
+            }
+
+            project.setEnv("DB_PASSWORD", password);
+
+            await project.save();
+
+            console.info(`Project "${project.name}" updated`);
+        }
     }
 
-    protected async getDumpsDatabases(service: Service): Promise<string[]> {
-        if(!this.fs.exists(`dump/${service.name}`)) {
-            return [];
+    public async link(name?: string, database?: string): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+        const project = this.projectService.get();
+
+        if(!database) {
+            database = await this.promptService.input("--database", {
+                message: "Database:",
+                required: true,
+                default: project.name
+            }) as string;
+        }
+
+        await this.query(service, `CREATE DATABASE IF NOT EXISTS ${escapeIdentifier(database as string)};`);
+
+        if(!service.host && service.username && service.username !== "root") {
+            await this.query(service, `GRANT ALL PRIVILEGES ON ${escapeIdentifier(database as string)}.* TO ${escapeString(service.username)}@'%'; FLUSH PRIVILEGES;`);
         }
 
-        return this.fs.readdir(`dump/${service.name}`);
+        const [host, port = "3306"] = service.host
+            ? service.host.split(":")
+            : [service.containerName];
+        const username = service.username || "root";
+        const password = !service.host && username === "root"
+            ? service.rootPassword
+            : service.password;
+
+        project.setMeta("MARIADB_SERVICE", service.name);
+        project.setMeta("MARIADB_DATABASE", database as string);
+        project.setEnv("DB_HOST", host);
+        project.setEnv("DB_PORT", port);
+        project.setEnv("DB_DATABASE", database as string);
+        project.setEnv("DB_USERNAME", username);
+        project.setEnv("DB_PASSWORD", password || "");
+
+        await project.save();
+
+        console.info(`Project "${project.name}" linked to "${service.name}/${database}"`);
     }
 
-    protected async getFiles(service: Service, database: string): Promise<string[]> {
-        if(!this.fs.exists(`dump/${service.name}/${database}`)) {
-            return [];
+    public async unlink(): Promise<void> {
+        const project = this.projectService.get();
+        const serviceName = project.getMeta("MARIADB_SERVICE");
+
+        if(!serviceName) {
+            throw new Error(`Project "${project.name}" is not linked to any MariaDB service`);
+        }
+
+        project.unsetMeta("MARIADB_SERVICE");
+        project.unsetMeta("MARIADB_DATABASE");
+
+        for(const name of ["DB_HOST", "DB_PORT", "DB_DATABASE", "DB_USERNAME", "DB_PASSWORD"]) {
+            project.unsetEnv(name);
         }
 
-        return this.fs.readdir(`dump/${service.name}/${database}`);
+        await project.save();
+
+        console.info(`Project "${project.name}" unlinked from "${serviceName}"`);
     }
 
-    public async init(adminHostname?: string): Promise<void> {
+    public async init(adminHostname?: string, adminOptions: Partial<Omit<AdminConfig, "enabled" | "hostname">> = {}): Promise<void> {
         const config = this.config;
 
-        if(!adminHostname) {
-            adminHostname = await promptInput({
+        let {
+            type
+        } = adminOptions;
+
+        if(!type) {
+            type = await this.promptService.select<AdminType>("--admin-type", {
+                message: "Admin UI",
+                options: [
+                    {label: "phpMyAdmin", value: ADMIN_PHPMYADMIN},
+                    {label: "Adminer", value: ADMIN_ADMINER},
+                    {label: "None", value: ADMIN_NONE}
+                ],
+                default: config.admin.type
+            });
+        }
+
+        if(![ADMIN_PHPMYADMIN, ADMIN_ADMINER, ADMIN_NONE].includes(type)) {
+            throw new Error(`Unknown admin type "${type}"`);
+        }
+
+        if(config.admin.type !== type) {
+            delete config.admin.imageName;
+            delete config.admin.imageVersion;
+        }
+
+        config.admin.type = type;
+
+        if(type !== ADMIN_NONE && !adminHostname) {
+            adminHostname = await this.promptService.input("--admin-hostname", {
                 message: "Admin hostname",
                 required: true,
                 default: config.admin.hostname
             }) as string;
         }
 
-        config.admin.hostname = adminHostname;
+        if(adminHostname) {
+            config.admin.hostname = adminHostname;
+        }
+
+        for(const key of ["imageName", "imageVersion", "language", "theme", "uploadLimit"] as const) {
+            if(adminOptions[key]) {
+                config.admin[key] = adminOptions[key];
+            }
+        }
 
         config.save();
     }
@@ -130,11 +556,12 @@ export class MariadbService {
         const config = this.config;
 
         const table = new CliTable({
-            head: ["Name", "Host", "User", "External", "Storage", "IP"]
+            head: ["Name", "Host", "User", "External", "Storage", "IP", "Status"]
         });
 
         for(const service of config.services) {
             let ip = "";
+            let status = "";
 
             if(!service.host) {
                 const container = await this.dockerService.getContainer(service.containerName);
@@ -152,29 +579,583 @@ export class MariadbService {
                     } = await container.inspect();
 
                     ip = `${IPAddress}`;
+                    status = await this.getHealth(container);
+                }
+            }
+
+            table.push([
+                service.name + (config.default === service.name ? " (default)" : ""),
+                service.host ? service.host : service.containerName,
+                service.username,
+                !!service.host,
+                !service.host ? service.storage : "",
+                ip || "-",
+                status || "-"
+            ]);
+        }
+
+        return table.toString();
+    }
+
+    public async status(name?: string, json?: boolean): Promise<string> {
+        const service = this.config.getServiceOrDefault(name);
+        const container = !service.host
+            ? await this.dockerService.getContainer(service.containerName)
+            : null;
+
+        const status: ServiceStatus = {
+            name: service.name,
+            host: service.host || service.containerName,
+            image: service.imageTag,
+            state: service.host ? "external" : "not created",
+            warnings: []
+        };
+
+        if(container) {
+            const {
+                State: {
+                    Status,
+                    Running,
+                    StartedAt
+                }
+            } = await container.inspect();
+
+            status.state = Status;
+
+            if(Running) {
+                status.startedAt = StartedAt;
+                status.state = await this.getHealth(container);
+
+                const [size] = (await this.execCommand(container, ["du", "-sb", "/var/lib/mysql"])).split(/\s+/);
+
+                status.datadirSize = parseInt(size);
+            }
+
+            if(await this.isContainerOutdated(service, container)) {
+                status.warnings.push(`Container doesn't match config.json, run "ws mariadb:start ${service.name}" to recreate it`);
+            }
+        }
+
+        if(service.host || status.startedAt) {
+            try {
+                await this.useContainer(service, async () => {
+                    const [{version}] = await this.query<{version: string;}>(service, "SELECT VERSION() AS version;");
+                    const [{connections}] = await this.query<{connections: string;}>(service, [
+                        "SELECT VARIABLE_VALUE AS connections FROM information_schema.GLOBAL_STATUS",
+                        "WHERE VARIABLE_NAME = 'THREADS_CONNECTED';"
+                    ].join(" "));
+                    const databases = await this.query<{name: string; size: string | null;}>(service, [
+                        "SELECT SCHEMA_NAME AS name, SUM(DATA_LENGTH + INDEX_LENGTH) AS size",
+                        "FROM information_schema.SCHEMATA",
+                        "LEFT JOIN information_schema.TABLES ON TABLE_SCHEMA = SCHEMA_NAME",
+                        "WHERE SCHEMA_NAME NOT IN ('mysql', 'information_schema', 'performance_schema', 'sys')",
+                        "GROUP BY SCHEMA_NAME ORDER BY SCHEMA_NAME;"
+                    ].join(" "));
+
+                    status.version = version;
+                    status.connections = parseInt(connections);
+                    status.databases = databases.map((row) => {
+                        return {
+                            name: row.name,
+                            size: parseInt(row.size || "0")
+                        };
+                    });
+                });
+            }
+            catch(err) {
+                status.warnings.push(`Server is not reachable: ${(err as Error).message}`);
+            }
+        }
+
+        if(json) {
+            return JSON.stringify(status, null, 4) + "\n";
+        }
+
+        const table = new CliTable();
+
+        table.push(
+            {"Name": status.name},
+            {"Host": status.host},
+            {"Image": status.image},
+            {"Version": status.version || "-"},
+            {"State": status.state},
+            {"Uptime": status.startedAt ? formatDistanceToNow(new Date(status.startedAt)) : "-"},
+            {"Datadir size": typeof status.datadirSize !== "undefined" ? formatSize(status.datadirSize) : "-"},
+            {"Connections": typeof status.connections !== "undefined" ? `${status.connections}` : "-"}
+        );
+
+        let output = table.toString() + "\n";
+
+        if(status.databases && status.databases.length > 0) {
+            const databasesTable = new CliTable({
+                head: ["Database", "Size"]
+            });
+
+            for(const database of status.databases) {
+                databasesTable.push([database.name, formatSize(database.size)]);
+            }
+
+            output += databasesTable.toString() + "\n";
+        }
+
+        for(const warning of status.warnings) {
+            output += `Warning: ${warning}\n`;
+        }
+
+        return output;
+    }
+
+    public async logs(name?: string, options: LogsOptions = {}): Promise<void> {
+        const {
+            follow,
+            tail,
+            since,
+            slow,
+            admin
+        } = options;
+
+        if(admin) {
+            const container = await this.dockerService.getContainer(this.config.admin.hostname);
+
+            if(!container) {
+                throw new Error("Admin is not started");
+            }
+
+            await this.streamLogs(container, follow, tail, since);
+            return;
+        }
+
+        const service = this.config.getServiceOrDefault(name);
+
+        if(service.host) {
+            throw new Error("Service is external");
+        }
+
+        if(slow) {
+            await this.slowLog(service, follow, tail);
+            return;
+        }
+
+        const container = await this.dockerService.getContainer(service.containerName);
+
+        if(!container) {
+            throw new Error(`Service "${service.name}" is not started`);
+        }
+
+        await this.streamLogs(container, follow, tail, since);
+    }
+
+    protected async streamLogs(container: Container, follow?: boolean, tail?: number, since?: string): Promise<void> {
+        const params: ContainerLogsOptions = {
+            stdout: true,
+            stderr: true,
+            since: since ? parseSince(since) : 0
+        };
+
+        // Docker returns all lines when tail is left out
+        if(typeof tail !== "undefined") {
+            params.tail = tail;
+        }
+
+        const stream: NodeJS.ReadableStream = follow
+            ? await container.logs({...params, follow: true})
+            : Readable.from([await container.logs({...params, follow: false})]);
+
+        await new Promise((resolve, reject) => {
+            container.modem.demuxStream(stream, process.stdout, process.stderr);
+
+            stream.on("end", resolve);
+            stream.on("error", reject);
+        });
+    }
+
+    protected async slowLog(service: Service, follow?: boolean, tail: number = 100): Promise<void> {
+        const options = service.serverOptions || {};
+
+        if(options.slow_query_log !== "1") {
+            service.serverOptions = {
+                long_query_time: "1",
+                ...options,
+                slow_query_log: "1",
+                slow_query_log_file: SLOW_LOG_FILE
+            };
+
+            this.config.setService(service);
+            this.config.save();
+
+            console.info(`Slow query log enabled for ${service.name} service`);
+
+            await this.start(service.name);
+        }
+
+        const container = await this.dockerService.getContainer(service.containerName);
+
+        if(!container) {
+            throw new Error(`Service "${service.name}" is not started`);
+        }
+
+        const exec = await container.exec({
+            Cmd: ["tail", "-n", `${tail}`, ...follow ? ["-F"] : [], service.serverOptions?.slow_query_log_file || SLOW_LOG_FILE],
+            AttachStdout: true,
+            AttachStderr: true
+        });
+
+        const stream = await exec.start({});
+
+        await new Promise((resolve, reject) => {
+            container.modem.demuxStream(stream, process.stdout, process.stderr);
+
+            stream.on("end", resolve);
+            stream.on("error", reject);
+        });
+    }
+
+    public async backupList(name?: string, database?: string, json?: boolean): Promise<string> {
+        const dumps = await this.dumpService.dumps(name, database);
+
+        if(json) {
+            return JSON.stringify(dumps.map((dump) => {
+                return dump.toObject();
+            }), null, 4) + "\n";
+        }
+
+        if(dumps.length === 0) {
+            return "No backups found\n";
+        }
+
+        const tables: Record<string, CliTable.Table> = {};
+
+        for(const dump of dumps) {
+            const key = `${dump.service}/${dump.database}`;
+
+            if(!tables[key]) {
+                tables[key] = new CliTable({
+                    head: ["Filename", "Size", "Age", "Image"]
+                });
+            }
+
+            tables[key].push([
+                dump.filename,
+                formatSize(dump.size),
+                formatDistanceToNow(dump.createdAt, {
+                    addSuffix: true
+                }),
+                dump.imageTag || "-"
+            ]);
+        }
+
+        return Object.keys(tables).sort().map((key) => {
+            return `${key}\n${tables[key].toString()}\n`;
+        }).join("\n");
+    }
+
+    public getServices(): string[] {
+        return (this.config.services || []).map((service) => {
+            return service.name;
+        });
+    }
+
+    protected getStoragePath(service: Service): string {
+        switch(service.storage) {
+            case STORAGE_VOLUME:
+                return service.volume;
+
+            case STORAGE_FILESYSTEM:
+            default:
+                return this.dbFs.path(service.name);
+        }
+    }
+
+    protected async getStorageSource(service: Service): Promise<string> {
+        switch(service.storage) {
+            case STORAGE_VOLUME: {
+                if(!this.pluginConfigService.isVersionGTE("1.0.19")) {
+                    throw new Error("Please update wocker for using volume storage");
+                }
+
+                if(!await this.dockerService.hasVolume(service.volume)) {
+                    await this.dockerService.createVolume(service.volume);
+                }
+
+                break;
+            }
+
+            case STORAGE_FILESYSTEM:
+            default: {
+                if(!this.dbFs.exists(service.name)) {
+                    this.dbFs.mkdir(service.name, {
+                        recursive: true
+                    });
                 }
+                break;
+            }
+        }
+
+        return this.getStoragePath(service);
+    }
+
+    protected async isStorageFresh(service: Service): Promise<boolean> {
+        switch(service.storage) {
+            case STORAGE_VOLUME:
+                return !await this.dockerService.hasVolume(service.volume);
+
+            case STORAGE_FILESYSTEM:
+            default:
+                return !this.dbFs.exists(service.name) || this.dbFs.readdir(service.name).length === 0;
+        }
+    }
+
+    protected getSeedFiles(service: Service): string[] {
+        const files: string[] = [];
+
+        for(const seed of service.seeds || []) {
+            if(!FS.existsSync(seed)) {
+                throw new Error(`Seed "${seed}" not found`);
+            }
+
+            if(!FS.statSync(seed).isDirectory()) {
+                files.push(seed);
+                continue;
+            }
+
+            files.push(...FS.readdirSync(seed).sort().filter((filename) => {
+                return /\.(sql|sql\.gz|sh)$/.test(filename);
+            }).map((filename) => {
+                return Path.join(seed, filename);
+            }));
+        }
+
+        return files;
+    }
+
+    protected async hasStorage(service: Service): Promise<boolean> {
+        switch(service.storage) {
+            case STORAGE_VOLUME:
+                return this.dockerService.hasVolume(service.volume);
+
+            case STORAGE_FILESYSTEM:
+            default:
+                return this.dbFs.exists(service.name);
+        }
+    }
+
+    protected async execCommand(container: Container, cmd: string[], env: string[] = []): Promise<string> {
+        const exec = await container.exec({
+            Cmd: cmd,
+            Env: env,
+            AttachStdout: true,
+            AttachStderr: true
+        });
+
+        const stream = await exec.start({});
+
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+
+        await new Promise((resolve, reject) => {
+            const out = new PassThrough();
+            const err = new PassThrough();
+
+            out.on("data", (data: Buffer) => stdout.push(data));
+            err.on("data", (data: Buffer) => stderr.push(data));
+
+            container.modem.demuxStream(stream, out, err);
+
+            stream.on("end", resolve);
+            stream.on("error", reject);
+        });
+
+        const {ExitCode} = await exec.inspect();
+
+        if(ExitCode !== 0) {
+            throw new Error(Buffer.concat(stderr).toString().trim() || `Command "${cmd[0]}" exited with code ${ExitCode}`);
+        }
+
+        return Buffer.concat(stdout).toString();
+    }
+
+    protected async execOutput(container: Container, cmd: string[], output: Writable, env: string[] = []): Promise<void> {
+        const exec = await container.exec({
+            Cmd: cmd,
+            Env: env,
+            AttachStdout: true,
+            AttachStderr: true
+        });
+
+        const stream = await exec.start({});
+
+        const stderr: Buffer[] = [];
+
+        await new Promise((resolve, reject) => {
+            const out = new PassThrough();
+            const err = new PassThrough();
+
+            out.pipe(output, {
+                end: false
+            });
+            out.on("end", resolve);
+            err.on("data", (data: Buffer) => stderr.push(data));
+
+            container.modem.demuxStream(stream, out, err);
+
+            // The demuxed stdout has to be drained before the caller ends the output
+            stream.on("end", () => out.end());
+            stream.on("error", reject);
+            output.on("error", reject);
+        });
+
+        const {ExitCode} = await exec.inspect();
+
+        if(ExitCode !== 0) {
+            throw new Error(Buffer.concat(stderr).toString().trim() || `Command "${cmd[0]}" exited with code ${ExitCode}`);
+        }
+    }
+
+    protected async execInput(container: Container, cmd: string[], input: Readable, env: string[] = []): Promise<void> {
+        const exec = await container.exec({
+            Cmd: cmd,
+            Env: env,
+            AttachStdin: true,
+            AttachStderr: true,
+            AttachStdout: true
+        });
+
+        const stream = await exec.start({
+            hijack: true,
+            stdin: true
+        });
+
+        const stderr: Buffer[] = [];
+
+        await new Promise((resolve, reject) => {
+            const out = new PassThrough();
+            const err = new PassThrough();
+
+            out.pipe(process.stdout, {
+                end: false
+            });
+            err.on("data", (data: Buffer) => stderr.push(data));
+
+            container.modem.demuxStream(stream, out, err);
+
+            // The client may exit before the whole input is sent, e.g. on a failing statement
+            stream.on("end", () => {
+                input.unpipe(stream);
+                resolve(undefined);
+            });
+            stream.on("error", reject);
+
+            input.on("error", reject);
+            input.on("end", () => stream.write("exit\n"));
+            input.pipe(stream, {
+                end: false
+            });
+        });
+
+        const {ExitCode} = await exec.inspect();
+
+        if(ExitCode !== 0) {
+            throw new Error(Buffer.concat(stderr).toString().trim() || `Command "${cmd[0]}" exited with code ${ExitCode}`);
+        }
+    }
+
+    protected async migrateStorage(from: Service, to: Service, removeOld?: boolean): Promise<void> {
+        if(!await this.hasStorage(from)) {
+            return;
+        }
+
+        const container = await this.dockerService.getContainer(from.containerName);
+        const wasRunning = !!container && (await container.inspect()).State.Running;
+
+        await this.dockerService.removeContainer(from.containerName);
+        await this.dockerService.pullImage(to.imageTag);
+
+        try {
+            const helperName = `mariadb-${to.name}-migrate.ws`;
+
+            await this.dockerService.removeContainer(helperName);
+
+            const helper = await this.dockerService.createContainer({
+                name: helperName,
+                image: to.imageTag,
+                entrypoint: ["sleep"],
+                cmd: ["infinity"],
+                volumes: [
+                    `${await this.getStorageSource(from)}:/from`,
+                    `${await this.getStorageSource(to)}:/to`
+                ]
+            });
+
+            try {
+                await helper.start();
+
+                const files = await this.execCommand(helper, ["sh", "-c", "ls -A /to"]);
+
+                if(files.trim()) {
+                    throw new Error("Target storage is not empty");
+                }
+
+                console.info(`Moving data of "${from.name}" service...`);
+
+                await this.execCommand(helper, ["cp", "-a", "/from/.", "/to/"]);
+
+                const summary = async (path: string): Promise<string> => {
+                    return this.execCommand(helper, ["sh", "-c", `cd ${path} && find . -type f -exec md5sum {} + | LC_ALL=C sort`]);
+                };
+
+                const [fromSummary, toSummary] = [await summary("/from"), await summary("/to")];
+
+                if(fromSummary !== toSummary) {
+                    await this.execCommand(helper, ["sh", "-c", "find /to -mindepth 1 -delete"]);
+
+                    throw new Error("Data verification failed, old storage kept");
+                }
+
+                if(removeOld) {
+                    await this.execCommand(helper, ["sh", "-c", "find /from -mindepth 1 -delete"]);
+                }
+            }
+            finally {
+                await this.dockerService.removeContainer(helperName);
+            }
+        }
+        catch(err) {
+            this.config.setService(from);
+
+            if(wasRunning) {
+                await this.start(from.name);
+            }
+
+            throw err;
+        }
+
+        if(removeOld) {
+            switch(from.storage) {
+                case STORAGE_VOLUME:
+                    await this.dockerService.rmVolume(from.volume);
+                    break;
+
+                case STORAGE_FILESYSTEM:
+                default:
+                    this.dbFs.rm(from.name, {
+                        recursive: true,
+                        force: true
+                    });
+                    break;
             }
 
-            table.push([
-                service.name + (config.default === service.name ? " (default)" : ""),
-                service.host ? service.host : service.containerName,
-                service.username,
-                !!service.host,
-                !service.host ? service.storage : "",
-                ip || "-"
-            ]);
+            console.info("Old storage removed");
         }
 
-        return table.toString();
-    }
+        if(wasRunning) {
+            this.config.setService(to);
+            this.config.save();
 
-    public getServices(): string[] {
-        return (this.config.services || []).map((service) => {
-            return service.name;
-        });
+            await this.start(to.name);
+        }
     }
 
-    public async start(name?: string, restart?: boolean): Promise<void> {
+    public async start(name?: string, restart?: boolean, wait: boolean = true, timeout: number = DEFAULT_READY_TIMEOUT): Promise<void> {
         if(!name && !this.config.hasDefaultService()) {
             await this.create();
         }
@@ -192,61 +1173,60 @@ export class MariadbService {
         }
 
         let container = await this.dockerService.getContainer(service.containerName);
+        let upgradeRequired = false;
+
+        if(container && await this.isContainerOutdated(service, container)) {
+            console.info(`Configuration of ${service.name} service changed, recreating container...`);
+
+            const {
+                Config: {
+                    Image
+                }
+            } = await container.inspect();
+
+            upgradeRequired = Image !== service.imageTag;
+
+            await this.dockerService.removeContainer(service.containerName);
+
+            container = null;
+        }
 
         if(!container) {
             console.info(`Starting ${service.name} service...`);
 
-            const volumes: string[] = [];
+            const fresh = await this.isStorageFresh(service);
+            const {env, volumes, ports, labels, healthcheck, files, secrets} = this.getContainerParams(service);
 
-            switch(service.storage) {
-                case STORAGE_VOLUME: {
-                    if(!this.pluginConfigService.isVersionGTE("1.0.19")) {
-                        throw new Error("Please update wocker for using volume storage");
-                    }
+            await this.getStorageSource(service);
 
-                    if(!await this.dockerService.hasVolume(service.volume)) {
-                        await this.dockerService.createVolume(service.volume);
-                    }
+            for(const [path, content] of Object.entries({...files, ...secrets})) {
+                this.fs.mkdir(Path.dirname(path), {
+                    recursive: true
+                });
+                this.fs.writeFile(path, content);
 
-                    volumes.push(`${service.volume}:/var/lib/mysql`);
-                    break;
+                if(path in secrets) {
+                    FS.chmodSync(this.fs.path(path), 0o600);
                 }
+            }
 
-                case STORAGE_FILESYSTEM:
-                default: {
-                    if(!this.dbFs.exists(service.name)) {
-                        this.dbFs.mkdir(service.name, {
-                            recursive: true
-                        });
-                    }
+            if(fresh) {
+                this.getSeedFiles(service).forEach((file, index) => {
+                    const target = `${String(index).padStart(3, "0")}-${Path.basename(file)}`;
 
-                    volumes.push(`${this.dbFs.path(service.name)}:/var/lib/mysql`);
-                    break;
-                }
+                    volumes.push(`${file}:/docker-entrypoint-initdb.d/${target}:ro`);
+                });
             }
 
             container = await this.dockerService.createContainer({
                 name: service.containerName,
                 image: service.imageTag,
                 restart: "always",
-                env: {
-                    ...service.username ? {
-                        MARIADB_USER: service.username
-                    } : {},
-                    ...service.password ? {
-                        MARIADB_PASSWORD: service.password
-                    } : {},
-                    ...service.passwordHash ? {
-                        MARIADB_ROOT_PASSWORD_HASH: service.passwordHash
-                    } : {},
-                    ...service.rootPassword ? {
-                        MARIADB_ROOT_PASSWORD: service.rootPassword
-                    } : {}
-                },
+                env,
                 volumes,
-                ports: service.containerPort
-                    ? [`${service.containerPort}:3306`]
-                    : undefined
+                ports: ports.length > 0 ? ports : undefined,
+                labels,
+                healthcheck
             });
         }
 
@@ -259,6 +1239,170 @@ export class MariadbService {
         if(!Running) {
             await container.start();
         }
+
+        if(wait || upgradeRequired) {
+            console.info(`Waiting for ${service.name} service to be ready...`);
+
+            await this.waitForServer(service, container, timeout);
+        }
+
+        if(upgradeRequired) {
+            console.info(`Running mariadb-upgrade for ${service.name} service...`);
+
+            process.stdout.write(await this.execCommand(container, ["mariadb-upgrade", ...service.auth], service.authEnv));
+        }
+    }
+
+    /**
+     * Has no side effects, start() writes the files and creates the storage.
+     */
+    protected getContainerParams(service: Service): ContainerParams {
+        const volumes: string[] = [
+            `${this.getStoragePath(service)}:/var/lib/mysql`
+        ];
+        const labels: {[name: string]: string} = {};
+        const files: {[path: string]: string} = {};
+        const secrets: {[path: string]: string} = {};
+
+        if(service.serverOptions) {
+            const conf = this.renderServerOptions(service.serverOptions);
+
+            files[`conf/${service.name}.cnf`] = conf;
+
+            volumes.push(`${this.fs.path(`conf/${service.name}.cnf`)}:/etc/mysql/conf.d/wocker.cnf:ro`);
+            labels[LABEL_CONFIG_HASH] = createHash("sha1").update(conf).digest("hex");
+        }
+
+        const env: EnvConfig = {
+            ...service.env || {},
+            ...service.username ? {
+                MARIADB_USER: service.username
+            } : {},
+            ...service.passwordHash ? {
+                MARIADB_ROOT_PASSWORD_HASH: service.passwordHash
+            } : {}
+        };
+
+        const passwords: [string, string | undefined][] = [
+            ["MARIADB_PASSWORD", service.password],
+            ["MARIADB_ROOT_PASSWORD", service.rootPassword]
+        ];
+
+        // Passwords are mounted as files, so they don't show up in docker inspect
+        for(const [name, value] of passwords) {
+            if(!value) {
+                continue;
+            }
+
+            const path = `secrets/${service.name}/${name.toLowerCase()}`;
+            const target = `/run/secrets/${name.toLowerCase()}`;
+
+            secrets[path] = value;
+            volumes.push(`${this.fs.path(path)}:${target}:ro`);
+            env[`${name}_FILE`] = target;
+        }
+
+        // Comparing with the container env can't tell a removed variable from one set by the image.
+        // The MARIADB_* credentials only matter on first boot, so rotating them doesn't recreate the container
+        const userEnv: EnvConfig = service.env || {};
+
+        labels[LABEL_ENV_HASH] = createHash("sha1").update(JSON.stringify(
+            Object.keys(userEnv).sort().map((name) => [name, userEnv[name]])
+        )).digest("hex");
+
+        return {
+            env,
+            volumes,
+            ports: service.containerPort
+                ? [`${service.containerPort}:3306`]
+                : [],
+            labels,
+            healthcheck: HEALTHCHECK,
+            files,
+            secrets
+        };
+    }
+
+    protected renderServerOptions(options: ServerOptions): string {
+        return [
+            "[mysqld]",
+            ...Object.keys(options).map((name) => {
+                return `${name} = ${options[name]}`;
+            }),
+            ""
+        ].join("\n");
+    }
+
+    public async isContainerOutdated(service: Service, container: Container): Promise<boolean> {
+        const {volumes, labels, healthcheck} = this.getContainerParams(service);
+
+        const info = await container.inspect();
+        const {
+            Config: {
+                Image,
+                Labels
+            },
+            HostConfig: {
+                Binds,
+                PortBindings
+            }
+        } = info;
+        // Docker reports the healthcheck in the inspect config, the inspect typings don't declare it
+        const {Healthcheck} = info.Config as typeof info.Config & {Healthcheck?: HealthConfig};
+
+        const hostPort = PortBindings?.["3306/tcp"]?.[0]?.HostPort;
+        const binds = (Binds || []).filter((bind: string) => {
+            // Seeds are mounted only into a container with a fresh datadir
+            return !bind.includes(":/docker-entrypoint-initdb.d/");
+        });
+
+        return Image !== service.imageTag
+            || hostPort !== (service.containerPort ? `${service.containerPort}` : undefined)
+            || labels[LABEL_ENV_HASH] !== Labels?.[LABEL_ENV_HASH]
+            || volumes.length !== binds.length
+            || volumes.some((volume) => !binds.includes(volume))
+            || labels[LABEL_CONFIG_HASH] !== Labels?.[LABEL_CONFIG_HASH]
+            || JSON.stringify(Healthcheck?.Test) !== JSON.stringify(healthcheck.Test);
+    }
+
+    protected async ping(service: Service, container: Container): Promise<boolean> {
+        try {
+            // TCP skips the socket-only server the entrypoint runs while initializing the datadir
+            await this.execCommand(container, ["mariadb-admin", "--protocol=tcp", "-h127.0.0.1", ...service.auth, "ping"], service.authEnv);
+
+            return true;
+        }
+        catch(err) {
+            return false;
+        }
+    }
+
+    protected async waitForServer(service: Service, container: Container, timeout: number = DEFAULT_READY_TIMEOUT): Promise<void> {
+        const startedAt = Date.now();
+
+        while(!await this.ping(service, container)) {
+            if(Date.now() - startedAt > timeout * 1000) {
+                throw new Error(`Service "${service.name}" is not ready after ${timeout}s`);
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, 1000));
+        }
+    }
+
+    protected async getHealth(container: Container): Promise<string> {
+        const {
+            State: {
+                Running,
+                Health
+            }
+        } = await container.inspect();
+
+        if(!Running) {
+            return "stopped";
+        }
+
+        // Containers created before the healthcheck was added report no health until recreated
+        return Health?.Status || "running";
     }
 
     public async startAdmin(): Promise<void> {
@@ -266,9 +1410,15 @@ export class MariadbService {
             return;
         }
 
-        console.info("Phpmyadmin starting...");
-
         const config = this.config;
+        const adminUi = this.getAdminUi();
+
+        if(!adminUi) {
+            await this.dockerService.removeContainer(config.admin.hostname);
+            return;
+        }
+
+        console.info(`${adminUi.title} starting...`);
 
         const servers: Service[] = [];
 
@@ -286,9 +1436,8 @@ export class MariadbService {
             servers.push(service);
         }
 
-        await this.dockerService.removeContainer(config.admin.hostname);
-
         if(servers.length === 0) {
+            await this.dockerService.removeContainer(config.admin.hostname);
             return;
         }
 
@@ -300,54 +1449,55 @@ export class MariadbService {
             servers.push(service);
         }
 
-        let conf = this.dataFs.readFile("conf/config.user.inc.php");
-        let file = conf.toString() + servers.map((service, index) => {
-            const host = service.host || service.containerName;
+        const params = adminUi.getParams(servers, this.fs);
+        const env: EnvConfig = {
+            ...params.env,
+            VIRTUAL_HOST: config.admin.hostname,
+            VIRTUAL_PORT: adminUi.port.toString()
+        };
+        const hash = createHash("sha1")
+            .update(adminUi.imageTag)
+            .update(JSON.stringify(params.files))
+            .update(JSON.stringify(env))
+            .digest("hex");
 
-            const user = service.host ? service.username : "root";
-            const password = service.host ? service.password : service.rootPassword;
+        let container = await this.dockerService.getContainer(config.admin.hostname);
 
-            const res = [
-                index !== 0 ? `$i++;` : "",
-                `$cfg['Servers'][$i]['host'] = '${host}';`
-            ];
+        if(container) {
+            const {
+                Config: {
+                    Labels
+                }
+            } = await container.inspect();
 
-            if(user && password) {
-                res.push(`$cfg['Servers'][$i]['auth_type'] = 'config';`);
-                res.push(`$cfg['Servers'][$i]['user'] = '${user}';`);
-                res.push(`$cfg['Servers'][$i]['password'] = '${password}';`);
-            }
-            else if(user) {
-                res.push(`$cfg['Servers'][$i]['auth_type'] = 'cookie';`);
-                res.push(`$cfg['Servers'][$i]['user'] = '${user}';`);
-            }
+            if(Labels?.[LABEL_CONFIG_HASH] !== hash) {
+                await this.dockerService.removeContainer(config.admin.hostname);
 
-            return res.join("\n");
-        }).join("\n");
+                container = null;
+            }
+        }
 
-        this.fs.writeFile("config.user.inc.php", file);
-        this.fs.mkdir("dump", {recursive: true});
-        this.fs.mkdir("save", {recursive: true});
-        this.fs.mkdir("upload", {recursive: true});
+        if(!container) {
+            for(const [path, content] of Object.entries(params.files)) {
+                this.fs.mkdir(Path.dirname(path), {recursive: true});
+                this.fs.writeFile(path, content);
+            }
 
-        let container = await this.dockerService.getContainer(config.admin.hostname);
+            for(const dir of Object.keys(params.dirs)) {
+                this.fs.mkdir(dir, {recursive: true});
+            }
 
-        if(!container) {
-            await this.dockerService.pullImage("phpmyadmin/phpmyadmin:latest");
+            await this.dockerService.pullImage(adminUi.imageTag);
 
             container = await this.dockerService.createContainer({
                 name: config.admin.hostname,
-                image: "phpmyadmin/phpmyadmin:latest",
+                image: adminUi.imageTag,
                 restart: "always",
-                env: {
-                    VIRTUAL_HOST: config.admin.hostname,
-                    VIRTUAL_PORT: "80"
-                },
-                volumes: [
-                    `${this.fs.path("config.user.inc.php")}:/etc/phpmyadmin/config.user.inc.php`,
-                    `${this.fs.path("save")}:/etc/phpmyadmin/save`,
-                    `${this.fs.path("upload")}:/etc/phpmyadmin/upload`
-                ]
+                env,
+                volumes: params.volumes,
+                labels: {
+                    [LABEL_CONFIG_HASH]: hash
+                }
             });
         }
 
@@ -359,19 +1509,34 @@ export class MariadbService {
 
         if(!Running) {
             await container.start();
-            await this.dockerService.exec(config.admin.hostname, [
-                "bash", "-c",
-                [
-                    "apt-get update",
-                    "apt-get install acl",
-                    "setfacl -R -m u:www-data:rwx /etc/phpmyadmin/save"
-                ].join(" && ")
-            ]);
+
+            const dirs = Object.values(params.dirs);
+
+            // The container starts as root, so it can give the mounted dirs to the web server user
+            if(params.owner && dirs.length > 0) {
+                await this.execCommand(container, ["chown", `${params.owner}:${params.owner}`, ...dirs]);
+            }
 
             await this.proxyService.start();
         }
     }
 
+    protected getAdminUi(): AdminUi | null {
+        const admin = this.config.admin;
+
+        switch(admin.type) {
+            case ADMIN_NONE:
+                return null;
+
+            case ADMIN_ADMINER:
+                return new Adminer(admin);
+
+            case ADMIN_PHPMYADMIN:
+            default:
+                return new PhpMyAdmin(admin, this.dataFs.readFile("conf/config.user.inc.php").toString());
+        }
+    }
+
     public async stop(name?: string): Promise<void> {
         const config = this.config;
         const service = name
@@ -394,7 +1559,7 @@ export class MariadbService {
         }
 
         if(!serviceProps.name) {
-            serviceProps.name = await promptInput({
+            serviceProps.name = await this.promptService.input("[service]", {
                 message: "Service name",
                 required: "Service name is required",
                 validate: (value?: string) => {
@@ -408,106 +1573,299 @@ export class MariadbService {
         }
 
         if(!serviceProps.username) {
-            serviceProps.username = await promptInput({
+            serviceProps.username = await this.promptService.input("--username", {
                 message: "User",
                 required: true
             });
         }
 
-        if(!serviceProps.password) {
-            serviceProps.password = await promptInput({
-                message: "Password",
-                type: "password",
-                required: true
-            });
+        for(const [field, ref] of [["password", serviceProps.passwordSecret], ["rootPassword", serviceProps.rootPasswordSecret]] as const) {
+            if(!ref) {
+                continue;
+            }
 
-            const confirmPassword = await promptInput({
-                message: "Confirm password",
-                type: "password"
-            });
+            const value = this.secretService.get(ref);
 
-            if(serviceProps.password !== confirmPassword) {
-                throw new Error("Password didn't match");
+            if(!value) {
+                throw new Error(`Secret "${ref}" is empty`);
+            }
+
+            serviceProps[field] = value;
+        }
+
+        if(!serviceProps.password) {
+            // The password of an external server can't be made up
+            serviceProps.password = await this.promptService.password("--password", "Password", !serviceProps.host);
+
+            if(!this.promptService.interactive) {
+                console.info(`Generated password: ${serviceProps.password}`);
             }
         }
 
         if(!serviceProps.host) {
             if(!serviceProps.rootPassword && serviceProps.username !== "root") {
-                serviceProps.rootPassword = await promptInput({
-                    message: "Root password",
-                    type: "password",
-                    required: true
+                serviceProps.rootPassword = await this.promptService.password("--root-password", "Root password", true);
+
+                if(!this.promptService.interactive) {
+                    console.info(`Generated root password: ${serviceProps.rootPassword}`);
+                }
+            }
+
+            if(!serviceProps.storage || ![STORAGE_VOLUME, STORAGE_FILESYSTEM].includes(serviceProps.storage)) {
+                serviceProps.storage = await this.promptService.select<ServiceStorageType>("--storage", {
+                    message: "Storage:",
+                    options: [STORAGE_VOLUME, STORAGE_FILESYSTEM]
                 });
+            }
 
-                const confirmPassword = await promptInput({
-                    message: "Confirm root password",
-                    type: "password",
-                    required: true
+            if(!serviceProps.containerPort) {
+                const needPort = await this.promptService.confirm(null, {
+                    message: "Do you need to expose container port?",
+                    default: false
                 });
 
-                if(serviceProps.rootPassword !== confirmPassword) {
-                    throw new Error("Password didn't match");
+                if(needPort) {
+                    serviceProps.containerPort = Number(await this.promptService.input("--container-port", {
+                        required: true,
+                        message: "Container port:",
+                        type: "number",
+                        min: 1,
+                        default: 3306
+                    }));
                 }
             }
+        }
+
+        this.config.setService(new Service(serviceProps as ServiceProps));
+        this.config.save();
+    }
+
+    public async upgrade(serviceProps: Partial<ServiceProps> = {}, removeOldStorage?: boolean, apply?: boolean): Promise<void> {
+        const service = this.config.getServiceOrDefault(serviceProps.name);
+        const prev = new Service(service.toObject());
+
+        if(serviceProps.storage) {
+            if(![STORAGE_FILESYSTEM, STORAGE_VOLUME].includes(serviceProps.storage)) {
+                throw new Error("Invalid storage type");
+            }
+
+            service.storage = serviceProps.storage;
+        }
+
+        if(serviceProps.volume) {
+            service.volume = serviceProps.volume;
+        }
+
+        if(serviceProps.imageName) {
+            service.imageName = serviceProps.imageName;
+        }
+
+        if(serviceProps.imageVersion) {
+            service.imageVersion = serviceProps.imageVersion;
+        }
+
+        if(serviceProps.containerPort) {
+            service.containerPort = serviceProps.containerPort;
+        }
+
+        if(!service.host) {
+            const storageChanged = prev.storage !== service.storage
+                || (service.storage === STORAGE_VOLUME && prev.volume !== service.volume);
+
+            if(storageChanged) {
+                await this.migrateStorage(prev, service, removeOldStorage);
+            }
+        }
+
+        this.config.setService(service);
+        this.config.save();
+
+        if(service.host) {
+            return;
+        }
+
+        const container = await this.dockerService.getContainer(service.containerName);
+
+        if(!container || !await this.isContainerOutdated(service, container)) {
+            return;
+        }
+
+        if(typeof apply === "undefined" && this.promptService.interactive) {
+            apply = await this.promptService.confirm(null, {
+                message: "Service container is outdated. Recreate it now?",
+                default: true
+            });
+        }
+
+        if(!apply) {
+            console.info(`Run "ws mariadb:start ${service.name}" to apply the changes`);
+            return;
+        }
+
+        await this.start(service.name);
+    }
+
+    public async getEnv(name?: string): Promise<string> {
+        const service = this.config.getServiceOrDefault(name);
+        const env = service.env || {};
+
+        return Object.keys(env).map((key) => {
+            return `${key}=${env[key]}\n`;
+        }).join("");
+    }
+
+    public async setEnv(name: string | undefined, variables: string[] = []): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        if(variables.length === 0) {
+            throw new Error("Variables are missing");
+        }
+
+        service.env = {
+            ...service.env || {},
+            ...parseVariables(variables)
+        };
+
+        this.config.setService(service);
+        this.config.save();
+
+        console.info(`Run "ws mariadb:start ${service.name}" to apply the changes`);
+    }
+
+    public async unsetEnv(name: string | undefined, variables: string[] = []): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        if(variables.length === 0) {
+            throw new Error("Variables are missing");
+        }
+
+        const env: EnvConfig = {
+            ...service.env || {}
+        };
+
+        for(const variable of variables) {
+            delete env[variable];
+        }
+
+        service.env = Object.keys(env).length > 0 ? env : undefined;
+
+        this.config.setService(service);
+        this.config.save();
+
+        console.info(`Run "ws mariadb:start ${service.name}" to apply the changes`);
+    }
+
+    public async getServerOptions(name?: string): Promise<string> {
+        const service = this.config.getServiceOrDefault(name);
+        const options = service.serverOptions || {};
+
+        return Object.keys(options).map((key) => {
+            return `${key}=${options[key]}\n`;
+        }).join("");
+    }
+
+    public async setServerOptions(name: string | undefined, variables: string[] = []): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        if(variables.length === 0) {
+            throw new Error("Options are missing");
+        }
+
+        const options = parseVariables(variables);
+
+        for(const key of Object.keys(options)) {
+            if(!/^[a-zA-Z0-9_-]+$/.test(key)) {
+                throw new Error(`Invalid option name "${key}"`);
+            }
+
+            if(/[\r\n]/.test(options[key])) {
+                throw new Error(`Invalid value of "${key}" option`);
+            }
+        }
+
+        service.serverOptions = {
+            ...service.serverOptions || {},
+            ...options
+        };
+
+        this.config.setService(service);
+        this.config.save();
+
+        console.info(`Run "ws mariadb:start ${service.name}" to apply the changes`);
+    }
+
+    public async unsetServerOptions(name: string | undefined, keys: string[] = []): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
 
-            if(!serviceProps.storage || ![STORAGE_VOLUME, STORAGE_FILESYSTEM].includes(serviceProps.storage)) {
-                serviceProps.storage = await promptSelect<ServiceStorageType>({
-                    message: "Storage:",
-                    options: [STORAGE_VOLUME, STORAGE_FILESYSTEM]
-                });
-            }
+        if(keys.length === 0) {
+            throw new Error("Options are missing");
+        }
 
-            if(!serviceProps.containerPort) {
-                const needPort = await promptConfirm({
-                    message: "Do you need to expose container port?",
-                    default: false
-                });
+        const options: ServerOptions = {
+            ...service.serverOptions || {}
+        };
 
-                if(needPort) {
-                    serviceProps.containerPort = await promptInput({
-                        required: true,
-                        message: "Container port:",
-                        type: "number",
-                        min: 1,
-                        default: 3306
-                    });
-                }
-            }
+        for(const key of keys) {
+            delete options[key];
         }
 
-        this.config.setService(new Service(serviceProps as ServiceProps));
+        service.serverOptions = Object.keys(options).length > 0 ? options : undefined;
+
+        this.config.setService(service);
         this.config.save();
+
+        console.info(`Run "ws mariadb:start ${service.name}" to apply the changes`);
     }
 
-    public async upgrade(serviceProps: Partial<ServiceProps> = {}): Promise<void> {
-        const service = this.config.getServiceOrDefault(serviceProps.name);
+    public async setSeeds(name: string | undefined, seeds: string[] = []): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
 
-        if(serviceProps.storage) {
-            if(![STORAGE_FILESYSTEM, STORAGE_VOLUME].includes(serviceProps.storage)) {
-                throw new Error("Invalid storage type");
+        service.seeds = seeds.length > 0 ? seeds.map((seed) => {
+            const path = Path.resolve(seed);
+
+            if(!FS.existsSync(path)) {
+                throw new Error(`Seed "${seed}" not found`);
             }
 
-            service.storage = serviceProps.storage;
-        }
+            return path;
+        }) : undefined;
 
-        if(serviceProps.volume) {
-            service.volume = serviceProps.volume;
-        }
+        this.config.setService(service);
+        this.config.save();
+    }
 
-        if(serviceProps.imageName) {
-            service.imageName = serviceProps.imageName;
-        }
+    public async seed(name?: string, database?: string): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
 
-        if(serviceProps.imageVersion) {
-            service.imageVersion = serviceProps.imageVersion;
+        if(!service.host && !await this.dockerService.getContainer(service.containerName)) {
+            throw new Error(`Service "${service.name}" is not started`);
         }
 
-        if(serviceProps.containerPort) {
-            service.containerPort = serviceProps.containerPort;
+        const files = this.getSeedFiles(service);
+
+        if(files.length === 0) {
+            throw new Error(`No seeds configured for "${service.name}" service`);
         }
 
-        this.config.setService(service);
-        this.config.save();
+        await this.useContainer(service, async (container) => {
+            for(const file of files) {
+                console.info(`Applying seed "${Path.basename(file)}"...`);
+
+                if(/\.sh$/.test(file)) {
+                    await this.execInput(container, ["bash", "-s"], FS.createReadStream(file));
+                    continue;
+                }
+
+                const cmd = ["mariadb", ...service.auth, ...database ? [database] : []];
+
+                if(/\.gz$/.test(file)) {
+                    await this.execInput(container, cmd, FS.createReadStream(file).pipe(zlib.createGunzip()), service.authEnv);
+                    continue;
+                }
+
+                await this.execInput(container, cmd, FS.createReadStream(file), service.authEnv);
+            }
+        });
     }
 
     public async destroy(name?: string, yes?: boolean, force?: boolean): Promise<void> {
@@ -524,7 +1882,7 @@ export class MariadbService {
         }
 
         if(!yes) {
-            const confirm = await promptConfirm({
+            const confirm = await this.promptService.confirm("--yes", {
                 message: `Are you sure you want to delete the "${name}" database? This action cannot be undone and all data will be lost.`,
                 default: false
             });
@@ -565,8 +1923,15 @@ export class MariadbService {
             }
         }
 
+        this.fs.rm(`secrets/${service.name}`, {
+            recursive: true,
+            force: true
+        });
+
         this.config.unsetService(name);
         this.config.save();
+
+        this.secretService.forget(service.toObject());
     }
 
     public async setDefault(name: string): Promise<void> {
@@ -578,128 +1943,328 @@ export class MariadbService {
 
     public async mariadb(name?: string, database?: string): Promise<void> {
         const service = this.config.getServiceOrDefault(name);
-        const container = await this.dockerService.getContainer(service.containerName);
 
-        if(!container) {
+        if(!service.host && !await this.dockerService.getContainer(service.containerName)) {
             throw new Error(`Service "${service.name}" is not started`);
         }
 
-        if(!database) {
-            if(!process.stdin.isTTY) {
-                throw new Error("Database name missing");
+        await this.useContainer(service, async (container) => {
+            if(!database) {
+                database = await this.promptService.select("--database", {
+                    message: "Database:",
+                    options: await this.getDatabases(service)
+                });
             }
 
-            database = await promptSelect({
-                message: "Database:",
-                options: await this.getDatabases(service)
+            const exec = await container.exec({
+                Cmd: ["mariadb", ...service.auth, database],
+                Env: service.authEnv,
+                AttachStdin: true,
+                AttachStdout: true,
+                AttachStderr: true,
+                Tty: process.stdin.isTTY
+            });
+
+            const stream = await exec.start({
+                hijack: true,
+                stdin: true,
+                Tty: process.stdin.isTTY
             });
+
+            await this.dockerService.attachStream(stream);
+        });
+    }
+
+    public async backup(name?: string, database?: string, filename?: string, compression: DumpCompression = COMPRESSION_NONE, output?: string): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+
+        if(![COMPRESSION_NONE, COMPRESSION_GZIP, COMPRESSION_ZSTD].includes(compression)) {
+            throw new Error("Invalid compression type");
         }
 
-        const exec = await container.exec({
-            Cmd: ["mariadb", ...service.auth, database],
-            AttachStdin: true,
-            AttachStdout: true,
-            AttachStderr: true,
-            Tty: process.stdin.isTTY
+        if(!Dump.getSupportedCompressions().includes(compression)) {
+            throw new Error(`${compression} compression requires Node.js 22.15 or newer`);
+        }
+
+        const extension = `.sql${COMPRESSION_EXTENSIONS[compression]}`;
+
+        if(!service.host && !await this.dockerService.getContainer(service.containerName)) {
+            throw new Error("Service not running");
+        }
+
+        await this.useContainer(service, async () => {
+            if(!database) {
+                if(output === "-") {
+                    throw new Error("Database is missing");
+                }
+
+                const databases = await this.getDatabases(service);
+
+                database = await this.promptService.select("--database", {
+                    message: "Database:",
+                    options: databases
+                }) as string;
+            }
+
+            const options = ["--add-drop-table", "--hex-blob"];
+
+            if(output) {
+                if(output !== "-" && compression === COMPRESSION_NONE) {
+                    compression = Dump.getCompressionByFilename(output) || COMPRESSION_NONE;
+                }
+
+                const compressStream = this.dumpService.createCompressStream(compression);
+                const file = output === "-"
+                    ? process.stdout
+                    : FS.createWriteStream(Path.resolve(output));
+
+                compressStream.pipe(file, {
+                    end: output !== "-"
+                });
+
+                try {
+                    await this.useContainer(service, async (container) => {
+                        await this.execOutput(container, ["mariadb-dump", ...service.auth, database as string, ...options], compressStream, service.authEnv);
+                    });
+
+                    await new Promise<void>((resolve, reject) => {
+                        if(output === "-") {
+                            compressStream.on("end", resolve);
+                        }
+                        else {
+                            file.on("finish", resolve);
+                        }
+
+                        compressStream.on("error", reject);
+                        file.on("error", reject);
+                        compressStream.end();
+                    });
+                }
+                catch(err) {
+                    if(output !== "-") {
+                        await this.discardFile(file as FS.WriteStream, Path.resolve(output));
+                    }
+
+                    throw err;
+                }
+
+                return;
+            }
+
+            if(!filename) {
+                const date = dateFormat(new Date(), "yyyy-MM-dd HH-mm");
+
+                filename = await this.promptService.input("--filename", {
+                    message: "File",
+                    default: date,
+                    suffix: extension
+                });
+                filename += extension;
+            }
+            else if(compression !== COMPRESSION_NONE && !(filename as string).endsWith(COMPRESSION_EXTENSIONS[compression])) {
+                filename += COMPRESSION_EXTENSIONS[compression];
+            }
+
+            const dump = new Dump({
+                service: service.name,
+                database,
+                filename: filename as string,
+                imageTag: service.imageTag,
+                options,
+                compression
+            });
+
+            this.fs.mkdir(dump.dir, {
+                recursive: true
+            });
+
+            const compressStream = this.dumpService.createCompressStream(compression);
+            const file = this.fs.createWriteStream(dump.path);
+
+            compressStream.pipe(file);
+
+            try {
+                await this.useContainer(service, async (container) => {
+                    await this.execOutput(container, ["mariadb-dump", ...service.auth, database as string, ...dump.options], compressStream, service.authEnv);
+                });
+
+                await new Promise<void>((resolve, reject) => {
+                    file.on("finish", resolve);
+                    file.on("error", reject);
+                    compressStream.on("error", reject);
+                    compressStream.end();
+                });
+            }
+            catch(err) {
+                // A partial file would be listed and counted by retention as a real backup
+                await this.discardFile(file, this.fs.path(dump.path));
+
+                throw err;
+            }
+
+            await this.dumpService.save(dump);
+            await this.prune(service.name, dump.database);
         });
+    }
 
-        const stream = await exec.start({
-            hijack: true,
-            stdin: true,
-            Tty: process.stdin.isTTY
+    protected async discardFile(file: FS.WriteStream, path: string): Promise<void> {
+        await new Promise<void>((resolve) => {
+            if(file.closed) {
+                resolve();
+                return;
+            }
+
+            file.on("close", () => resolve());
+            file.destroy();
         });
 
-        await this.dockerService.attachStream(stream);
+        if(FS.existsSync(path)) {
+            FS.rmSync(path);
+        }
     }
 
-    public async backup(name?: string, database?: string, filename?: string): Promise<void> {
+    public async importBackup(name?: string, path?: string, database?: string, filename?: string): Promise<void> {
         const service = this.config.getServiceOrDefault(name);
 
-        const container = await this.dockerService.getContainer(service.containerName);
+        if(!path) {
+            throw new Error("Path to the dump file required");
+        }
 
-        if(!container) {
-            throw new Error("Service not running");
+        const source = Path.resolve(path);
+
+        if(!FS.existsSync(source) || !FS.statSync(source).isFile()) {
+            throw new Error(`File "${path}" does not exists.`);
         }
 
         if(!database) {
-            const databases = await this.getDatabases(service);
-
-            database = await promptSelect({
+            database = await this.promptService.input("--database", {
                 message: "Database:",
-                options: databases
+                required: true
             }) as string;
         }
 
-        if(!filename) {
-            const date = dateFormat(new Date(), "yyyy-MM-dd HH-mm");
+        const dump = new Dump({
+            service: service.name,
+            database,
+            filename: filename || Path.basename(source),
+            compression: Dump.getCompressionByFilename(filename || source)
+        });
 
-            filename = await promptInput({
-                message: "File",
-                default: date,
-                suffix: ".sql"
-            });
-            filename += ".sql";
+        if(this.dumpService.hasDump(dump.service, dump.database, dump.filename)) {
+            throw new Error(`Backup "${dump.path}" already exists`);
         }
 
-        this.pluginConfigService.fs.mkdir(`dump/${service.name}/${database}`, {
+        this.fs.mkdir(dump.dir, {
             recursive: true
         });
 
-        const file = this.fs.createWriteStream(`dump/${service.name}/${database}/${filename}`);
+        await new Promise<void>((resolve, reject) => {
+            const file = this.fs.createWriteStream(dump.path);
+            const input = FS.createReadStream(source);
 
-        const exec = await container.exec({
-            Cmd: ["mariadb-dump", ...service.auth, database as string, "--add-drop-table", "--hex-blob"],
-            Tty: true,
-            AttachStdin: true,
-            AttachStdout: true,
-            AttachStderr: true
-        });
+            input.on("error", reject);
+            file.on("error", reject);
+            file.on("finish", resolve);
 
-        const stream = await exec.start({
-            Tty: true,
-            stdin: true,
-            hijack: true
+            input.pipe(file);
         });
 
-        await new Promise((resolve, reject) => {
-            stream.on("data", (data: Buffer): void => {
-                file.write(data.toString("utf-8"));
-            });
+        dump.compression = await this.dumpService.getCompression(dump);
 
-            stream.on("end", resolve);
-            stream.on("error", reject);
+        await this.dumpService.save(dump);
+
+        console.info(`Backup "${dump.path}" imported`);
+    }
+
+    public async prune(name?: string, database?: string, dryRun?: boolean): Promise<void> {
+        const service = this.config.getServiceOrDefault(name);
+        const retention = this.config.getRetention(service);
+
+        if(retention.isEmpty) {
+            if(dryRun) {
+                console.info(`No retention policy configured for "${service.name}" service`);
+            }
+
+            return;
+        }
+
+        const databases = database ? [database] : this.dumpService.getDatabases(service.name);
+
+        for(const database of databases) {
+            const dumps = await this.dumpService.dumps(service.name, database);
+
+            for(const dump of retention.getExpired(dumps)) {
+                if(dryRun) {
+                    console.info(`Would delete "${dump.path}"`);
+                    continue;
+                }
+
+                await this.dumpService.delete(dump);
+
+                console.info(`File "${dump.path}" deleted`);
+            }
+        }
+    }
+
+    public async retention(name?: string, props: RetentionProps = {}, global?: boolean): Promise<string> {
+        const keys = (Object.keys(props) as (keyof RetentionProps)[]).filter((key) => {
+            return typeof props[key] !== "undefined";
         });
+
+        if(global) {
+            if(keys.length > 0) {
+                const retention = new Retention(this.config.retention?.toObject());
+
+                for(const key of keys) {
+                    retention[key] = props[key] || undefined;
+                }
+
+                this.config.retention = retention;
+                this.config.save();
+            }
+
+            return `${(this.config.retention || new Retention()).toString()}\n`;
+        }
+
+        const service = this.config.getServiceOrDefault(name);
+
+        if(keys.length > 0) {
+            const retention = new Retention(service.retention?.toObject());
+
+            for(const key of keys) {
+                retention[key] = props[key] || undefined;
+            }
+
+            service.retention = retention;
+
+            this.config.setService(service);
+            this.config.save();
+        }
+
+        return `${this.config.getRetention(service).toString()}\n`;
     }
 
     public async deleteBackup(name?: string, database?: string, filename?: string, confirm?: boolean): Promise<void> {
         const service = this.config.getServiceOrDefault(name);
 
         if(!database) {
-            const databases = await this.getDumpsDatabases(service);
-
-            database = await promptSelect({
+            database = await this.promptService.select("--database", {
                 message: "Database:",
-                options: databases
+                options: this.dumpService.getDatabases(service.name)
             });
         }
 
         if(!filename) {
-            const files = await this.getFiles(service, database);
-
-            filename = await promptSelect({
+            filename = await this.promptService.select("--filename", {
                 message: "File:",
-                options: files
+                options: this.dumpService.getFiles(service.name, database)
             });
         }
 
-        const path = `dump/${service.name}/${database}/${filename}`;
-
-        if(!this.fs.exists(path)) {
-            throw new Error(`File "${filename}" does not exists.`)
-        }
+        const dump = this.dumpService.getDump(service.name, database, filename);
 
         if(!confirm) {
-            confirm = await promptConfirm({
+            confirm = await this.promptService.confirm("--yes", {
                 message: "Are you sure you want to delete?",
                 default: false
             });
@@ -709,103 +2274,180 @@ export class MariadbService {
             throw new Error("Canceled");
         }
 
-        this.fs.rm(path);
+        await this.dumpService.delete(dump);
 
-        console.info(`File "${filename}" deleted`);
+        console.info(`File "${dump.filename}" deleted`);
 
         return;
     }
 
-    public async restore(name?: string, database?: string, filename?: string): Promise<void> {
+    public async restore(name?: string, database?: string, filename?: string, file?: string): Promise<void> {
         const service = this.config.getServiceOrDefault(name);
 
-        const container = await this.dockerService.getContainer(service.containerName);
-
-        if(!container) {
+        if(!service.host && !await this.dockerService.getContainer(service.containerName)) {
             throw new Error("Mariadb instance isn't started");
         }
 
+        if(file) {
+            await this.useContainer(service, async (container) => {
+                if(!database) {
+                    if(file === "-") {
+                        throw new Error("Database is missing");
+                    }
+
+                    database = await this.promptService.select("--database", {
+                        options: await this.getDatabases(service),
+                        message: "Database:"
+                    });
+                }
+
+                const input: Readable = file === "-"
+                    ? process.stdin
+                    : FS.createReadStream(Path.resolve(file));
+
+                const compression = file !== "-" && Dump.getCompressionByFilename(file)
+                    || await this.dumpService.getStreamCompression(input);
+
+                const decompressStream = this.dumpService.createDecompressStream(compression);
+
+                input.on("error", (err: Error) => decompressStream.destroy(err));
+
+                await this.execInput(container, ["mariadb", ...service.auth, database as string], input.pipe(decompressStream), service.authEnv);
+            });
+
+            return;
+        }
+
         if(!database) {
-            database = await promptSelect({
-                options: await this.getDumpsDatabases(service),
+            database = await this.promptService.select("--database", {
+                options: this.dumpService.getDatabases(service.name),
                 message: "Database:"
             });
         }
 
         if(!filename) {
-            filename = await promptSelect({
-                options: await this.getFiles(service, database),
+            const dumps = await this.dumpService.dumps(service.name, database);
+
+            filename = await this.promptService.select("--filename", {
+                options: dumps.map((dump) => {
+                    return {
+                        label: dump.imageTag ? `${dump.filename} (${dump.imageTag})` : dump.filename,
+                        value: dump.filename
+                    };
+                }),
                 message: "Filename:"
             });
         }
 
-        const exec = await container.exec({
-            Cmd: ["mariadb", ...service.auth, database as string],
-            AttachStdin: true,
-            AttachStderr: true,
-            AttachStdout: true
-        });
+        const dump = this.dumpService.getDump(service.name, database, filename);
 
-        const stream = await exec.start({
-            hijack: true,
-            stdin: true
+        if(dump.imageTag && dump.imageTag !== service.imageTag) {
+            console.info(`Backup "${dump.filename}" was created with ${dump.imageTag}, service is running ${service.imageTag}`);
+        }
+
+        const decompressStream = this.dumpService.createDecompressStream(
+            await this.dumpService.getCompression(dump)
+        );
+
+        await this.useContainer(service, async (container) => {
+            const file = this.fs.createReadStream(dump.path);
+
+            file.on("error", (err: Error) => decompressStream.destroy(err));
+
+            await this.execInput(container, ["mariadb", ...service.auth, database as string], file.pipe(decompressStream), service.authEnv);
         });
+    }
 
-        await new Promise((resolve, reject) => {
-            const file = this.fs.createReadStream(`dump/${service.name}/${database}/${filename}`);
+    public async clone(sourceName?: string, targetName?: string, database?: string, targetDatabase?: string): Promise<void> {
+        if(!sourceName) {
+            throw new Error("Source service name required");
+        }
 
-            file.on("data", (data) => {
-                stream.write(data);
-            });
+        if(!targetName) {
+            throw new Error("Target service name required");
+        }
 
-            file.on("error", reject);
-            file.on("end", () => resolve(undefined));
+        const source = this.config.getService(sourceName);
+        const target = this.config.getService(targetName);
 
-            stream.on("data", (data: any): void => {
-                process.stdout.write(data);
-            });
+        if(!source.host && !await this.dockerService.getContainer(source.containerName)) {
+            throw new Error(`Service "${source.name}" is not started`);
+        }
+
+        if(!target.host && !await this.dockerService.getContainer(target.containerName)) {
+            throw new Error(`Service "${target.name}" is not started`);
+        }
+
+        await this.useContainer(source, async (sourceContainer) => {
+            if(!database) {
+                database = await this.promptService.select("--database", {
+                    message: "Database:",
+                    options: await this.getDatabases(source)
+                });
+            }
+
+            if(!targetDatabase) {
+                targetDatabase = database as string;
+            }
 
-            stream.on("error", (err: Error): void => {
-                file.close();
-                reject(err);
+            if(source.name === target.name && database === targetDatabase) {
+                throw new Error("Source and target databases are the same");
+            }
+
+            console.info(`Cloning "${source.name}/${database}" into "${target.name}/${targetDatabase}"...`);
+
+            // The target reuses the source client when both are the same service
+            await this.useContainer(target, async (targetContainer) => {
+                await this.execCommand(targetContainer, [
+                    "mariadb",
+                    ...target.auth,
+                    "-e", `CREATE DATABASE IF NOT EXISTS ${escapeIdentifier(targetDatabase as string)};`
+                ], target.authEnv);
+
+                const pipe = new PassThrough();
+
+                // Either side failing destroys the pipe, so the other one doesn't wait forever
+                await Promise.all([
+                    this.execOutput(sourceContainer, [
+                        "mariadb-dump",
+                        ...source.auth,
+                        database as string,
+                        "--add-drop-table",
+                        "--hex-blob",
+                        "--single-transaction"
+                    ], pipe, source.authEnv).then(() => {
+                        pipe.end();
+                    }, (err: Error) => {
+                        pipe.destroy(err);
+                        throw err;
+                    }),
+                    this.execInput(targetContainer, ["mariadb", ...target.auth, targetDatabase as string], pipe, target.authEnv).catch((err: Error) => {
+                        pipe.destroy(err);
+                        throw err;
+                    })
+                ]);
             });
         });
-
-        stream.write("exit\n");
     }
 
     public async dump(name?: string, database?: string): Promise<void> {
         const service = this.config.getServiceOrDefault(name);
-        const container = await this.dockerService.getContainer(service.containerName);
 
-        if(!container) {
+        if(!service.host && !await this.dockerService.getContainer(service.containerName)) {
             throw new Error("Service isn't started");
         }
 
-        if(!database) {
-            if(!process.stdin.isTTY) {
-                throw new Error("Database is missing");
-            }
-
-            const databases = await this.getDatabases(service);
-
-            database = await promptSelect({
-                message: "Database:",
-                options: databases
-            });
-        }
+        await this.useContainer(service, async (container) => {
+            if(!database) {
+                const databases = await this.getDatabases(service);
 
-        const exec = await container.exec({
-            Cmd: ["mariadb-dump", ...service.auth, database as string, "--add-drop-table"],
-            AttachStdout: true,
-            AttachStderr: true
-        });
+                database = await this.promptService.select("--database", {
+                    message: "Database:",
+                    options: databases
+                });
+            }
 
-        const stream = await exec.start({
-            Tty: process.stdin.isTTY,
-            hijack: true
+            await this.execOutput(container, ["mariadb-dump", ...service.auth, database as string, "--add-drop-table"], process.stdout, service.authEnv);
         });
-
-        stream.pipe(process.stdout);
     }
 }
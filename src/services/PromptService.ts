@@ -0,0 +1,115 @@
+import {Injectable} from "@wocker/core";
+import {promptConfirm, promptInput, promptSelect} from "@wocker/utils";
+import {randomBytes} from "crypto";
+
+
+type SelectOption<T> = T | {
+    label?: string;
+    value: T;
+};
+
+type InputOptions = {
+    message: string;
+    type?: "number" | "password";
+    required?: boolean | string;
+    default?: string | number;
+    suffix?: string;
+    min?: number;
+    validate?: (value?: string) => boolean | string;
+};
+
+type SelectOptions<T> = {
+    message: string;
+    options: SelectOption<T>[];
+    default?: T;
+};
+
+@Injectable()
+export class PromptService {
+    protected enabled: boolean = true;
+
+    /**
+     * Prompts are disabled by the --no-interactive option or when stdin isn't a terminal.
+     */
+    public get interactive(): boolean {
+        return this.enabled && !!process.stdin.isTTY;
+    }
+
+    public setInteractive(interactive: boolean): void {
+        this.enabled = interactive;
+    }
+
+    public async input(option: string, options: InputOptions): Promise<string> {
+        if(!this.interactive) {
+            if(typeof options.default !== "undefined") {
+                return `${options.default}`;
+            }
+
+            this.missing(option);
+        }
+
+        return promptInput(options);
+    }
+
+    public async select<T = string>(option: string, options: SelectOptions<T>): Promise<T> {
+        if(!this.interactive) {
+            if(typeof options.default !== "undefined") {
+                return options.default;
+            }
+
+            this.missing(option);
+        }
+
+        return promptSelect<T>(options);
+    }
+
+    /**
+     * Confirmations guarding destructive actions pass the option that skips them,
+     * the others fall back to their default answer.
+     */
+    public async confirm(option: string | null, options: {message: string; default?: boolean}): Promise<boolean> {
+        if(!this.interactive) {
+            if(option) {
+                this.missing(option);
+            }
+
+            return options.default ?? false;
+        }
+
+        return promptConfirm(options);
+    }
+
+    /**
+     * Asks for a password twice, or generates one in non-interactive mode when it is safe to do so.
+     */
+    public async password(option: string, message: string, generate?: boolean): Promise<string> {
+        if(!this.interactive) {
+            if(generate) {
+                return randomBytes(18).toString("base64").replace(/[+/]/g, "_");
+            }
+
+            this.missing(option);
+        }
+
+        const password = await promptInput({
+            message,
+            type: "password",
+            required: true
+        }) as string;
+
+        const confirmPassword = await promptInput({
+            message: "Confirm password:",
+            type: "password"
+        });
+
+        if(password !== confirmPassword) {
+            throw new Error("Password didn't match");
+        }
+
+        return password;
+    }
+
+    protected missing(option: string): never {
+        throw new Error(`Missing ${option}, it is required in non-interactive mode`);
+    }
+}
@@ -0,0 +1,144 @@
+import {Injectable, PluginConfigService} from "@wocker/core";
+import {EnvSecretProvider} from "../makes/EnvSecretProvider";
+import {KeystoreSecretProvider} from "../makes/KeystoreSecretProvider";
+import {SecretProvider} from "../makes/SecretProvider";
+import {ServiceProps} from "../makes/Service";
+
+
+export const SECRET_KEYSTORE = "keystore";
+export const SECRET_ENV = "env";
+
+@Injectable()
+export class SecretService {
+    protected _providers?: {
+        [scheme: string]: SecretProvider;
+    };
+    protected unreadable: Set<string> = new Set();
+
+    public constructor(
+        protected readonly configService: PluginConfigService
+    ) {}
+
+    protected get providers(): {[scheme: string]: SecretProvider} {
+        if(!this._providers) {
+            this._providers = {
+                [SECRET_KEYSTORE]: new KeystoreSecretProvider(this.configService.fs),
+                [SECRET_ENV]: new EnvSecretProvider()
+            };
+        }
+
+        return this._providers;
+    }
+
+    /**
+     * References look like "keystore:default.password" or "env:DB_PASSWORD".
+     */
+    protected parse(ref: string): [SecretProvider, string] {
+        const index = ref.indexOf(":");
+
+        const scheme = ref.slice(0, index);
+        const key = ref.slice(index + 1);
+
+        if(index === -1 || !key || !this.providers[scheme]) {
+            throw new Error(`Invalid secret reference "${ref}"`);
+        }
+
+        return [this.providers[scheme], key];
+    }
+
+    public get(ref: string): string | undefined {
+        const [provider, key] = this.parse(ref);
+
+        return provider.get(key);
+    }
+
+    public set(ref: string, value: string): void {
+        const [provider, key] = this.parse(ref);
+
+        if(!this.unreadable.has(ref) && provider.get(key) === value) {
+            return;
+        }
+
+        provider.set(key, value);
+    }
+
+    public delete(ref: string): void {
+        const [provider, key] = this.parse(ref);
+
+        provider.delete(key);
+    }
+
+    public hydrate(props: ServiceProps): ServiceProps {
+        const {
+            passwordSecret,
+            rootPasswordSecret
+        } = props;
+
+        return {
+            ...props,
+            password: passwordSecret ? this.resolve(passwordSecret) : props.password,
+            rootPassword: rootPasswordSecret ? this.resolve(rootPasswordSecret) : props.rootPassword
+        };
+    }
+
+    public dehydrate(props: ServiceProps): ServiceProps {
+        const {
+            password,
+            rootPassword,
+            ...rest
+        } = props;
+
+        return {
+            ...rest,
+            passwordSecret: this.store(props.passwordSecret || `${SECRET_KEYSTORE}:${props.name}.password`, password),
+            rootPasswordSecret: this.store(props.rootPasswordSecret || `${SECRET_KEYSTORE}:${props.name}.rootPassword`, rootPassword)
+        };
+    }
+
+    /**
+     * Removes the keystore entries of a destroyed service.
+     */
+    public forget(props: ServiceProps): void {
+        this.delete(props.passwordSecret || `${SECRET_KEYSTORE}:${props.name}.password`);
+        this.delete(props.rootPasswordSecret || `${SECRET_KEYSTORE}:${props.name}.rootPassword`);
+    }
+
+    /**
+     * A secret that can't be read leaves the password empty instead of failing the whole config,
+     * so commands that don't need it keep working.
+     */
+    protected resolve(ref: string): string | undefined {
+        try {
+            return this.get(ref);
+        }
+        catch(err) {
+            this.unreadable.add(ref);
+
+            console.warn(`Warning: ${(err as Error).message}`);
+
+            return undefined;
+        }
+    }
+
+    protected store(ref: string, value?: string): string | undefined {
+        // Values of environment references are never written back
+        if(ref.startsWith(`${SECRET_ENV}:`)) {
+            return ref;
+        }
+
+        // Keep the entry that failed to decrypt, it may be readable with the right key
+        if(!value && this.unreadable.has(ref)) {
+            return ref;
+        }
+
+        if(!value) {
+            this.delete(ref);
+
+            return undefined;
+        }
+
+        this.set(ref, value);
+
+        return ref;
+    }
+}
@@ -0,0 +1,3 @@
+export type QueryRow = {
+    [column: string]: string | null;
+};
@@ -1 +1,2 @@
+export * from "./QueryRow";
 export * from "./Service";
@@ -0,0 +1,20 @@
+export const escapeIdentifier = (value: string): string => {
+    return "`" + value.replace(/`/g, "``") + "`";
+};
+
+/**
+ * Quotes are doubled and backslashes kept as they are, which is only right with NO_BACKSLASH_ESCAPES.
+ * Statements built with it have to run through MariadbService.query(), which enables that mode.
+ */
+export const escapeString = (value: string): string => {
+    // Command line arguments can't carry NUL characters
+    if(value.includes("\0")) {
+        throw new Error("NUL characters are not supported in SQL values");
+    }
+
+    return "'" + value.replace(/'/g, "''") + "'";
+};
+
+export const escapePhpString = (value: string): string => {
+    return "'" + value.replace(/[\\']/g, "\\$&") + "'";
+};
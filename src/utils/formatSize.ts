@@ -0,0 +1,12 @@
+const UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+export const formatSize = (size: number): string => {
+    let unit = 0;
+
+    while(size >= 1024 && unit < UNITS.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+
+    return `${unit === 0 ? size : size.toFixed(1)} ${UNITS[unit]}`;
+};
@@ -0,0 +1,8 @@
+export * from "./escape";
+export * from "./formatSize";
+export * from "./migrateConfig";
+export * from "./parseResultSet";
+export * from "./parseSince";
+export * from "./parseVariables";
+export * from "./pickFields";
+export * from "./validateConfig";
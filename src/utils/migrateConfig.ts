@@ -0,0 +1,74 @@
+type ConfigData = {
+    [key: string]: unknown;
+};
+
+type ConfigMigration = (data: ConfigData) => ConfigData;
+
+/**
+ * Migration N upgrades a config of version N - 1 to version N.
+ * Files written before versioning existed are treated as version 0.
+ */
+const migrations: ConfigMigration[] = [
+    // 1: admin settings moved from the root into "admin"
+    (data) => {
+        const {
+            enableAdmin,
+            adminHostname,
+            ...rest
+        } = data;
+
+        if(rest.admin || (typeof enableAdmin === "undefined" && typeof adminHostname === "undefined")) {
+            return rest;
+        }
+
+        return {
+            ...rest,
+            admin: {
+                enabled: enableAdmin,
+                hostname: adminHostname || "dbadmin-mariadb.workspace"
+            }
+        };
+    },
+    // 2: service "user" and "image" renamed to "username" and "imageName"
+    (data) => {
+        if(!Array.isArray(data.services)) {
+            return data;
+        }
+
+        return {
+            ...data,
+            services: data.services.map((service: ConfigData) => {
+                const {
+                    user,
+                    image,
+                    ...rest
+                } = service;
+
+                return {
+                    ...rest,
+                    username: rest.username || user,
+                    imageName: rest.imageName || image
+                };
+            })
+        };
+    }
+];
+
+export const CONFIG_VERSION = migrations.length;
+
+export const migrateConfig = (data: ConfigData): ConfigData => {
+    const version = typeof data.version === "number" ? data.version : 0;
+
+    if(version > CONFIG_VERSION) {
+        throw new Error(`Config version ${version} is newer than supported version ${CONFIG_VERSION}, update the plugin`);
+    }
+
+    for(let i = version; i < CONFIG_VERSION; i++) {
+        data = migrations[i](data);
+    }
+
+    return {
+        ...data,
+        version: CONFIG_VERSION
+    };
+};
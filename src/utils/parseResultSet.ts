@@ -0,0 +1,50 @@
+import {QueryRow} from "../types";
+
+
+const ENTITIES: {[entity: string]: string} = {
+    "&lt;": "<",
+    "&gt;": ">",
+    "&amp;": "&",
+    "&quot;": "\"",
+    "&apos;": "'"
+};
+
+const unescapeXml = (value: string): string => {
+    return value.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-f]+);/gi, (entity: string): string => {
+        if(ENTITIES[entity]) {
+            return ENTITIES[entity];
+        }
+
+        return /^&#x/i.test(entity)
+            ? String.fromCodePoint(parseInt(entity.slice(3, -1), 16))
+            : String.fromCodePoint(parseInt(entity.slice(2, -1), 10));
+    });
+};
+
+/**
+ * Parses rows from the output of `mariadb --xml`.
+ */
+export const parseResultSet = (xml: string): QueryRow[] => {
+    const rows: QueryRow[] = [];
+    const rowRegex = /<row>([\s\S]*?)<\/row>/g;
+    const fieldRegex = /<field name="([^"]*)"\s*(?:xsi:nil="true"\s*\/>|\/>|>([\s\S]*?)<\/field>)/g;
+
+    let rowMatch: RegExpExecArray | null;
+
+    while((rowMatch = rowRegex.exec(xml))) {
+        const row: QueryRow = {};
+        let fieldMatch: RegExpExecArray | null;
+
+        while((fieldMatch = fieldRegex.exec(rowMatch[1]))) {
+            const [field, name, value] = fieldMatch;
+
+            row[unescapeXml(name)] = /xsi:nil="true"/.test(field)
+                ? null
+                : unescapeXml(value || "");
+        }
+
+        rows.push(row);
+    }
+
+    return rows;
+};
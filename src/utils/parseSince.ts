@@ -0,0 +1,29 @@
+const UNITS: {[unit: string]: number} = {
+    s: 1,
+    m: 60,
+    h: 3600,
+    d: 86400
+};
+
+/**
+ * Converts "1700000000", "15m" or a date string into a UNIX timestamp.
+ */
+export const parseSince = (since: string): number => {
+    if(/^\d+$/.test(since)) {
+        return parseInt(since);
+    }
+
+    const [, value, unit] = /^(\d+)([smhd])$/.exec(since) || [];
+
+    if(value) {
+        return Math.floor(Date.now() / 1000) - parseInt(value) * UNITS[unit];
+    }
+
+    const time = Date.parse(since);
+
+    if(isNaN(time)) {
+        throw new Error(`Invalid since value "${since}"`);
+    }
+
+    return Math.floor(time / 1000);
+};
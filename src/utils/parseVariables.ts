@@ -0,0 +1,15 @@
+export const parseVariables = (variables: string[]): {[name: string]: string} => {
+    const result: {[name: string]: string} = {};
+
+    for(const variable of variables) {
+        const [, name, value] = /^([^=]+)=([\s\S]*)$/.exec(variable) || [];
+
+        if(!name || !name.trim()) {
+            throw new Error(`Invalid variable "${variable}", expected NAME=VALUE`);
+        }
+
+        result[name.trim()] = value;
+    }
+
+    return result;
+};
@@ -0,0 +1,9 @@
+export const pickFields = <T, K extends keyof T>(source: T, keys: readonly K[]): Pick<T, K> => {
+    const result = {} as Pick<T, K>;
+
+    for(const key of keys) {
+        result[key] = source[key];
+    }
+
+    return result;
+};
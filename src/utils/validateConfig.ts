@@ -0,0 +1,196 @@
+import {ADMIN_ADMINER, ADMIN_NONE, ADMIN_PHPMYADMIN} from "../makes/AdminUi";
+import {STORAGE_FILESYSTEM, STORAGE_VOLUME} from "../makes/Service";
+
+
+type Rule = (value: unknown) => string | undefined;
+
+type Schema = {
+    [key: string]: Rule;
+};
+
+type Fields = {
+    [key: string]: unknown;
+};
+
+const isRecord = (value: unknown): value is Fields => {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+};
+
+const isString: Rule = (value) => {
+    return typeof value !== "string" ? "must be a string" : undefined;
+};
+
+const isBoolean: Rule = (value) => {
+    return typeof value !== "boolean" ? "must be a boolean" : undefined;
+};
+
+const isCount: Rule = (value) => {
+    return typeof value !== "number" || !Number.isInteger(value) || value < 0 ? "must be a non-negative integer" : undefined;
+};
+
+const isPort: Rule = (value) => {
+    const port = typeof value === "string" && /^\d+$/.test(value) ? parseInt(value) : value;
+
+    return typeof port !== "number" || !Number.isInteger(port) || port < 1 || port > 65535 ? "must be a port number" : undefined;
+};
+
+const isStringMap: Rule = (value) => {
+    if(!isRecord(value)) {
+        return "must be an object";
+    }
+
+    return Object.values(value).some((item) => typeof item !== "string") ? "must contain only string values" : undefined;
+};
+
+const isStringList: Rule = (value) => {
+    return !Array.isArray(value) || value.some((item) => typeof item !== "string") ? "must be a list of strings" : undefined;
+};
+
+const oneOf = (...values: string[]): Rule => {
+    return (value) => {
+        return typeof value !== "string" || !values.includes(value) ? `must be one of ${values.join(", ")}` : undefined;
+    };
+};
+
+const validate = (data: Fields, schema: Schema, path: string = ""): string[] => {
+    const errors: string[] = [];
+
+    for(const [key, value] of Object.entries(data)) {
+        if(typeof value === "undefined" || value === null) {
+            continue;
+        }
+
+        const rule = schema[key];
+
+        if(!rule) {
+            errors.push(`${path}${key}: unknown field`);
+            continue;
+        }
+
+        const error = rule(value);
+
+        if(error) {
+            errors.push(`${path}${key}: ${error}`);
+        }
+    }
+
+    return errors;
+};
+
+const isObject = (schema: Schema): Rule => {
+    return (value) => {
+        if(!isRecord(value)) {
+            return "must be an object";
+        }
+
+        const errors = validate(value, schema);
+
+        return errors.length > 0 ? errors.join("; ") : undefined;
+    };
+};
+
+const adminSchema: Schema = {
+    enabled: isBoolean,
+    type: oneOf(ADMIN_PHPMYADMIN, ADMIN_ADMINER, ADMIN_NONE),
+    imageName: isString,
+    imageVersion: isString,
+    hostname: isString,
+    language: isString,
+    theme: isString,
+    uploadLimit: isString
+};
+
+const retentionSchema: Schema = {
+    keepLast: isCount,
+    keepDaily: isCount,
+    keepWeekly: isCount,
+    keepMonthly: isCount
+};
+
+const serviceSchema: Schema = {
+    name: isString,
+    host: isString,
+    username: isString,
+    password: isString,
+    passwordSecret: isString,
+    passwordHash: isString,
+    rootPassword: isString,
+    rootPasswordSecret: isString,
+    storage: oneOf(STORAGE_FILESYSTEM, STORAGE_VOLUME),
+    volume: isString,
+    imageName: isString,
+    imageVersion: isString,
+    env: isStringMap,
+    containerPort: isPort,
+    retention: isObject(retentionSchema),
+    serverOptions: isStringMap,
+    seeds: isStringList
+};
+
+/**
+ * Checks a migrated config and throws one error listing every problem found.
+ */
+export const validateConfig = (data: Fields): void => {
+    const {
+        version,
+        default: defaultService,
+        admin,
+        retention,
+        services,
+        ...rest
+    } = data;
+
+    const errors: string[] = Object.keys(rest).map((key) => {
+        return `${key}: unknown field`;
+    });
+
+    const checks: [string, unknown, Rule][] = [
+        ["version", version, isCount],
+        ["default", defaultService, isString],
+        ["admin", admin, isObject(adminSchema)],
+        ["retention", retention, isObject(retentionSchema)]
+    ];
+
+    for(const [key, value, rule] of checks) {
+        const error = typeof value !== "undefined" ? rule(value) : undefined;
+
+        if(error) {
+            errors.push(`${key}: ${error}`);
+        }
+    }
+
+    if(typeof services !== "undefined") {
+        if(!Array.isArray(services)) {
+            errors.push("services: must be a list");
+        }
+        else {
+            const names = new Set<string>();
+
+            services.forEach((service: unknown, index) => {
+                if(!isRecord(service)) {
+                    errors.push(`services[${index}]: must be an object`);
+                    return;
+                }
+
+                const {name} = service;
+
+                if(!name) {
+                    errors.push(`services[${index}].name: is required`);
+                }
+                else if(typeof name === "string") {
+                    if(names.has(name)) {
+                        errors.push(`services[${index}].name: duplicate service "${name}"`);
+                    }
+
+                    names.add(name);
+                }
+
+                errors.push(...validate(service, serviceSchema, `services[${index}].`));
+            });
+        }
+    }
+
+    if(errors.length > 0) {
+        throw new Error(`Invalid config:\n${errors.map((error) => `  ${error}`).join("\n")}`);
+    }
+};